@@ -0,0 +1,10 @@
+// Write the record JSON Schemas published with the package, from the
+// compiled RECORD_SCHEMAS. Run through `npm run schema`.
+import * as fs from "fs";
+import { RECORD_SCHEMAS } from "../dist/index.js";
+
+for (const [version, schema] of Object.entries(RECORD_SCHEMAS)) {
+  const file = new URL(`../schema/record.v${version}.json`, import.meta.url);
+  fs.writeFileSync(file, JSON.stringify(schema, null, 2) + "\n");
+  console.log(`wrote ${file.pathname}`);
+}
@@ -0,0 +1,33 @@
+import { HttpExchange } from "./fetch.js";
+
+type AnyObject = Record<string, unknown>;
+
+/**
+ * Receives the outcome of an adapted call, however the SDK reports it.
+ * Only the first outcome reported is recorded.
+ */
+export interface CallObserver {
+  chunk(chunk: unknown): void;
+  /** A stream finished; `reassembled` is its final result, if known. */
+  finish(reassembled?: unknown): void;
+  /** A result that was not streamed. */
+  response(response: unknown): void;
+  error(err: Error): void;
+}
+
+/**
+ * How to record a call whose arguments or results the generic handling
+ * can't, chosen per call from its arguments.
+ */
+export interface CallAdapter {
+  client: string;
+  /** The method name to record, if not the wrapped function's. */
+  method?: string;
+  request: AnyObject;
+  /** The args to call with, e.g. adding callbacks that report to `observer`. */
+  args(observer: CallObserver): unknown[];
+  /** Report the call's result to `observer`; returns what the caller receives. */
+  result(result: unknown, observer: CallObserver): unknown;
+  /** HTTP details of the call, once known. */
+  http?(): HttpExchange;
+}
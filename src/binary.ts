@@ -0,0 +1,100 @@
+import * as path from "path";
+
+type AnyObject = Record<string, unknown>;
+
+/**
+ * What a record keeps of a binary payload (an uploaded file, generated
+ * image, or audio) in place of its bytes.
+ */
+export interface BinaryDescriptor {
+  type: "binary";
+  /** The payload's class, e.g. `File`, `Buffer`, `ReadStream`, or `base64`. */
+  kind: string;
+  /** Size in bytes, when known without reading the payload. */
+  bytes: number | null;
+  name?: string;
+  mimeType?: string;
+  /** The bytes of small in-memory payloads; see `SerializeOptions`. */
+  base64?: string;
+}
+
+/**
+ * Keys whose string values are base64-encoded binary, e.g. OpenAI's
+ * `images.generate` results.
+ */
+export const BASE64_KEYS = new Set(["b64_json"]);
+
+function descriptor(
+  kind: string,
+  bytes: number | null,
+  extra: { name?: unknown; mimeType?: unknown } = {},
+): BinaryDescriptor {
+  return {
+    type: "binary",
+    kind,
+    bytes,
+    ...(typeof extra.name === "string" &&
+      extra.name !== "" && { name: extra.name }),
+    ...(typeof extra.mimeType === "string" &&
+      extra.mimeType !== "" && { mimeType: extra.mimeType }),
+  };
+}
+
+/**
+ * Describe a binary value: a Buffer or typed array, an ArrayBuffer, a Blob
+ * or File, a fetch Response, or a Node or web stream. Returns null for
+ * anything else.
+ */
+export function describeBinary(value: unknown): BinaryDescriptor | null {
+  if (value === null || typeof value !== "object") {
+    return null;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return descriptor(value.constructor.name, value.byteLength);
+  }
+  if (value instanceof ArrayBuffer) {
+    return descriptor("ArrayBuffer", value.byteLength);
+  }
+  if (typeof Blob !== "undefined" && value instanceof Blob) {
+    return descriptor(value.constructor.name, value.size, {
+      name: (value as { name?: unknown }).name,
+      mimeType: value.type,
+    });
+  }
+  if (typeof Response !== "undefined" && value instanceof Response) {
+    return descriptor("Response", null, {
+      mimeType: value.headers.get("content-type"),
+    });
+  }
+  if (
+    typeof ReadableStream !== "undefined" &&
+    value instanceof ReadableStream
+  ) {
+    return descriptor("ReadableStream", null);
+  }
+  const stream = value as AnyObject;
+  if (typeof stream.pipe === "function" && "readable" in stream) {
+    // A Node stream, typically fs.createReadStream(path)
+    return descriptor(value.constructor.name, null, {
+      name:
+        typeof stream.path === "string"
+          ? path.basename(stream.path)
+          : undefined,
+    });
+  }
+  return null;
+}
+
+/**
+ * Describe a base64 string kept under a known binary key.
+ */
+export function describeBase64(
+  key: string,
+  value: unknown,
+): BinaryDescriptor | null {
+  if (!BASE64_KEYS.has(key) || typeof value !== "string") {
+    return null;
+  }
+  const padding = value.endsWith("==") ? 2 : value.endsWith("=") ? 1 : 0;
+  return descriptor("base64", Math.floor((value.length * 3) / 4) - padding);
+}
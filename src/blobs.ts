@@ -0,0 +1,304 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { BASE64_KEYS } from "./binary.js";
+import { SerializeOptions, serializeValue } from "./serialize.js";
+
+type AnyObject = Record<string, unknown>;
+
+export interface BlobOptions {
+  /** Directory blobs are written to; any number of processes may share it. */
+  directory: string;
+  /** Strings at least this long are stored whatever they hold. Defaults to 64 KiB. */
+  minBytes?: number;
+  /**
+   * Media types of base64 payloads and data URLs stored at any size, with
+   * `*` wildcards. Defaults to `DEFAULT_BLOB_MEDIA_TYPES`.
+   */
+  mediaTypes?: string[];
+}
+
+/**
+ * How a stored payload was written in the record: a base64 string, a
+ * `data:` URL, or plain text.
+ */
+export type BlobEncoding = "base64" | "data-url" | "text";
+
+/**
+ * What a record keeps of a payload moved to the blob store.
+ */
+export interface BlobRef {
+  type: "blob";
+  /** Hex SHA-256 of the payload's bytes, and its file name in the store. */
+  sha256: string;
+  /** Size of the stored bytes. */
+  bytes: number;
+  mediaType: string | null;
+  encoding: BlobEncoding;
+}
+
+export interface BlobResult<T> {
+  fields: T;
+  /** Hashes of the payloads stored, in the order first seen. */
+  blobs: string[];
+}
+
+export const DEFAULT_BLOB_MIN_BYTES = 64 * 1024;
+
+export const DEFAULT_BLOB_MEDIA_TYPES = [
+  "image/*",
+  "audio/*",
+  "video/*",
+  "application/pdf",
+];
+
+/**
+ * Sibling keys naming the media type of a base64 `data` string: Anthropic's
+ * `source.media_type`, Gemini's `inlineData.mimeType`.
+ */
+const MEDIA_TYPE_KEYS = ["media_type", "mimeType", "mime_type"];
+
+const DATA_URL = /^data:([^;,]*)((?:;[^;,]*)*);base64,/;
+
+function isPlainObject(value: unknown): value is AnyObject {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+export function isBlobRef(value: unknown): value is BlobRef {
+  return (
+    isPlainObject(value) &&
+    value.type === "blob" &&
+    typeof value.sha256 === "string" &&
+    typeof value.encoding === "string"
+  );
+}
+
+/**
+ * Decode base64, or return null if the string does not round-trip (e.g. it
+ * has line breaks or uses the URL-safe alphabet), so it is stored as text.
+ */
+function decodeBase64(value: string): Buffer | null {
+  const bytes = Buffer.from(value, "base64");
+  return bytes.toString("base64") === value ? bytes : null;
+}
+
+/**
+ * The media type of a base64 `data` string, from its object's keys:
+ * `media_type`/`mimeType` as with Anthropic and Gemini, or OpenAI's
+ * `input_audio.format`.
+ */
+function mediaTypeOf(object: AnyObject, parentKey: string): string | null {
+  for (const key of MEDIA_TYPE_KEYS) {
+    if (typeof object[key] === "string") {
+      return object[key];
+    }
+  }
+  if (parentKey === "input_audio" && typeof object.format === "string") {
+    return `audio/${object.format}`;
+  }
+  return null;
+}
+
+/**
+ * Payloads stored once under their SHA-256, as `<directory>/<sha256>`.
+ * Identical payloads, such as an image resent on every turn of a
+ * conversation, share a file.
+ */
+export class BlobStore {
+  readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private file(sha256: string): string {
+    if (!/^[0-9a-f]{64}$/.test(sha256)) {
+      throw new Error(`Not a blob hash: ${sha256}`);
+    }
+    return path.join(this.directory, sha256);
+  }
+
+  /**
+   * Store bytes unless already stored, and return their hash. Blobs are
+   * written to a temporary file and renamed, so readers never see part of
+   * one.
+   */
+  put(bytes: Buffer): string {
+    const sha256 = createHash("sha256").update(bytes).digest("hex");
+    const file = this.file(sha256);
+    if (!fs.existsSync(file)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(temp, bytes);
+      fs.renameSync(temp, file);
+    }
+    return sha256;
+  }
+
+  has(sha256: string): boolean {
+    return fs.existsSync(this.file(sha256));
+  }
+
+  get(sha256: string): Buffer {
+    return fs.readFileSync(this.file(sha256));
+  }
+
+  /**
+   * A copy of a record (or any JSON value) with each `BlobRef` replaced by
+   * the payload as originally written. Throws if a blob is missing.
+   */
+  rehydrate<T>(value: T): T {
+    return this.resolve(value) as T;
+  }
+
+  private resolve(value: unknown): unknown {
+    if (isBlobRef(value)) {
+      const bytes = this.get(value.sha256);
+      if (value.encoding === "text") {
+        return bytes.toString("utf-8");
+      }
+      const base64 = bytes.toString("base64");
+      return value.encoding === "data-url"
+        ? `data:${value.mediaType ?? ""};base64,${base64}`
+        : base64;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolve(item));
+    }
+    if (isPlainObject(value)) {
+      const copy: AnyObject = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.resolve(item);
+      }
+      return copy;
+    }
+    return value;
+  }
+}
+
+/**
+ * Moves large and binary payloads out of records into a `BlobStore`.
+ * Compiled once per `shunt()` call.
+ */
+export class Blobs {
+  readonly store: BlobStore;
+  private readonly minBytes: number;
+  private readonly mediaTypes: RegExp[];
+
+  constructor(options: BlobOptions) {
+    this.store = new BlobStore(options.directory);
+    this.minBytes = options.minBytes ?? DEFAULT_BLOB_MIN_BYTES;
+    this.mediaTypes = (options.mediaTypes ?? DEFAULT_BLOB_MEDIA_TYPES).map(
+      (pattern) =>
+        new RegExp(
+          `^${pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`,
+          "i",
+        ),
+    );
+  }
+
+  /**
+   * Replace payloads in a serialized copy of the given record fields with
+   * references to the stored blobs. Strings are kept whole, whatever
+   * `maxStringLength` the options set, so long ones are stored rather than
+   * cut.
+   */
+  apply<T extends Record<string, unknown>>(
+    fields: T,
+    options: SerializeOptions = {},
+  ): BlobResult<T> {
+    const stored = new Set<string>();
+    const serialized = serializeValue(fields, {
+      ...options,
+      keepBase64: true,
+      maxStringLength: Infinity,
+    });
+    const root = this.walk(serialized, "", stored) as T;
+    return { fields: root, blobs: [...stored] };
+  }
+
+  private matchesType(mediaType: string | null): boolean {
+    return (
+      mediaType !== null &&
+      this.mediaTypes.some((pattern) => pattern.test(mediaType))
+    );
+  }
+
+  private walk(value: unknown, key: string, stored: Set<string>): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.walk(item, key, stored));
+    }
+    if (!isPlainObject(value)) {
+      return typeof value === "string"
+        ? this.externalize(value, null, stored)
+        : value;
+    }
+    const copy: AnyObject = {};
+    for (const [name, item] of Object.entries(value)) {
+      if (BASE64_KEYS.has(name) && typeof item === "string") {
+        // Binary by its key, as with generated images; stored at any size
+        const bytes = decodeBase64(item);
+        copy[name] = bytes
+          ? this.ref(bytes, null, "base64", stored)
+          : this.externalize(item, null, stored);
+      } else {
+        copy[name] =
+          name === "data" && typeof item === "string"
+            ? this.externalize(item, mediaTypeOf(value, key), stored)
+            : this.walk(item, name, stored);
+      }
+    }
+    return copy;
+  }
+
+  /**
+   * A reference to a stored string, or the string itself if it is neither
+   * large nor of a stored media type. `mediaType` is set for strings known
+   * to be base64, from the keys around them.
+   */
+  private externalize(
+    value: string,
+    mediaType: string | null,
+    stored: Set<string>,
+  ): unknown {
+    const dataUrl = DATA_URL.exec(value);
+    if (dataUrl) {
+      const type = dataUrl[1] || null;
+      const bytes =
+        value.length >= this.minBytes || this.matchesType(type)
+          ? decodeBase64(value.slice(dataUrl[0].length))
+          : null;
+      // Data URLs with parameters besides base64 are stored as text
+      if (bytes && dataUrl[2] === "") {
+        return this.ref(bytes, type, "data-url", stored);
+      }
+    } else if (
+      mediaType !== null &&
+      (value.length >= this.minBytes || this.matchesType(mediaType))
+    ) {
+      const bytes = decodeBase64(value);
+      if (bytes) {
+        return this.ref(bytes, mediaType, "base64", stored);
+      }
+    }
+    if (value.length >= this.minBytes) {
+      return this.ref(Buffer.from(value, "utf-8"), mediaType, "text", stored);
+    }
+    return value;
+  }
+
+  private ref(
+    bytes: Buffer,
+    mediaType: string | null,
+    encoding: BlobEncoding,
+    stored: Set<string>,
+  ): BlobRef {
+    const sha256 = this.store.put(bytes);
+    stored.add(sha256);
+    return { type: "blob", sha256, bytes: bytes.length, mediaType, encoding };
+  }
+}
@@ -0,0 +1,96 @@
+import type { ShuntlyRecord } from "./record.js";
+
+export interface CapturePolicy {
+  /** Probability in [0, 1] that a call is captured. Defaults to 1. */
+  sampleRate?: number;
+  /** Capture failed calls regardless of sampling or latency. Defaults to true. */
+  alwaysCaptureErrors?: boolean;
+  /** Capture only calls that took at least this long. */
+  minDurationMs?: number;
+  /**
+   * Methods to capture, as `method` or `Client.method`
+   * (e.g. `messages.create` or `Anthropic.messages.create`).
+   */
+  allow?: string[];
+  /** Methods never to capture, in the same form as `allow`. */
+  deny?: string[];
+  /**
+   * Final decision given the would-be record; return false to drop it. If it
+   * throws, the record is kept and the error goes to `onSinkError`.
+   */
+  predicate?: (record: ShuntlyRecord) => boolean;
+}
+
+/**
+ * Why a record was captured, so downstream stats can be re-weighted: each
+ * record stands for `1 / sampleRate` calls.
+ */
+export interface CaptureDecision {
+  sampleRate: number;
+  reason: "sampled" | "error";
+}
+
+/**
+ * A compiled capture policy, shared by the wrappers of a `shunt()` call.
+ */
+export class Capture {
+  private readonly sampleRate: number;
+  private readonly alwaysCaptureErrors: boolean;
+  private readonly minDurationMs: number;
+  private readonly allow: Set<string> | null;
+  private readonly deny: Set<string>;
+  private readonly predicate: ((record: ShuntlyRecord) => boolean) | null;
+
+  constructor(policy: CapturePolicy) {
+    this.sampleRate = Math.min(1, Math.max(0, policy.sampleRate ?? 1));
+    this.alwaysCaptureErrors = policy.alwaysCaptureErrors ?? true;
+    this.minDurationMs = policy.minDurationMs ?? 0;
+    this.allow = policy.allow ? new Set(policy.allow) : null;
+    this.deny = new Set(policy.deny ?? []);
+    this.predicate = policy.predicate ?? null;
+  }
+
+  /**
+   * Whether calls to this method are eligible for capture at all.
+   */
+  allows(client: string, method: string): boolean {
+    const qualified = `${client}.${method}`;
+    if (this.deny.has(method) || this.deny.has(qualified)) {
+      return false;
+    }
+    return (
+      this.allow === null || this.allow.has(method) || this.allow.has(qualified)
+    );
+  }
+
+  /**
+   * Draw the sampling decision for a call, made when the call starts.
+   */
+  sample(): boolean {
+    return this.sampleRate >= 1 || Math.random() < this.sampleRate;
+  }
+
+  /**
+   * Decide whether a completed call is captured. Returns null to drop it.
+   */
+  decide(
+    sampled: boolean,
+    failed: boolean,
+    durationMs: number,
+  ): CaptureDecision | null {
+    if (failed && this.alwaysCaptureErrors) {
+      return { sampleRate: 1, reason: "error" };
+    }
+    if (!sampled || durationMs < this.minDurationMs) {
+      return null;
+    }
+    return { sampleRate: this.sampleRate, reason: "sampled" };
+  }
+
+  /**
+   * Apply the predicate, if any, to a record that passed `decide()`.
+   */
+  accepts(record: ShuntlyRecord): boolean {
+    return this.predicate === null || this.predicate(record);
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  STREAM_REDUCERS,
+  StreamReducer,
+  reduceAnthropic,
+  reduceGemini,
+  reduceOllama,
+  reduceOpenAI,
+} from "./reducers.js";
+
+type AnyObject = Record<string, unknown>;
+
+/**
+ * How Shuntly recognizes and wraps a client.
+ */
+export interface ClientRegistration {
+  /**
+   * The client name written to records. Instances whose class, or any
+   * ancestor class, has this name are recognized without `detect`.
+   */
+  name: string;
+  /** Method paths to patch; paths missing on an instance are skipped. */
+  methods: string[];
+  /** Recognize instances structurally, e.g. when class names are minified. */
+  detect?: (client: object) => boolean;
+  /** Collapse the client's stream chunks into a response. */
+  reducer?: StreamReducer;
+}
+
+/**
+ * Check whether a dotted path resolves to a function on an object.
+ */
+export function hasQualified(obj: object, path: string): boolean {
+  let value: unknown = obj;
+  for (const part of path.split(".")) {
+    if (value === null || value === undefined) {
+      return false;
+    }
+    value = (value as AnyObject)[part];
+  }
+  return typeof value === "function";
+}
+
+function hasAll(client: object, paths: string[]): boolean {
+  return paths.every((path) => hasQualified(client, path));
+}
+
+const OPENAI_METHODS = [
+  "chat.completions.create",
+  "chat.completions.stream",
+  "chat.completions.parse",
+  "beta.chat.completions.parse",
+  "beta.chat.completions.stream",
+  "responses.create",
+  "responses.stream",
+  "responses.parse",
+  "embeddings.create",
+  "completions.create",
+  "images.generate",
+  "audio.transcriptions.create",
+];
+
+function isOpenAI(client: object): boolean {
+  return hasAll(client, ["chat.completions.create", "embeddings.create"]);
+}
+
+/**
+ * Registrations by name, in registration order. Later registrations take
+ * precedence in structural detection.
+ */
+const REGISTRY: Map<string, ClientRegistration> = new Map();
+
+/**
+ * Register a client so `shunt()` recognizes it without a method list.
+ * Registering an existing name replaces it, built-in clients included,
+ * along with its reducer.
+ */
+export function registerClient(registration: ClientRegistration): void {
+  REGISTRY.delete(registration.name);
+  REGISTRY.set(registration.name, registration);
+  if (registration.reducer) {
+    STREAM_REDUCERS.set(registration.name, registration.reducer);
+  } else {
+    STREAM_REDUCERS.delete(registration.name);
+  }
+}
+
+registerClient({
+  name: "Anthropic",
+  methods: ["messages.create", "messages.stream"],
+  detect: (client) => hasAll(client, ["messages.create", "messages.stream"]),
+  reducer: reduceAnthropic,
+});
+registerClient({
+  name: "OpenAI",
+  methods: OPENAI_METHODS,
+  detect: isOpenAI,
+  reducer: reduceOpenAI,
+});
+registerClient({
+  name: "AzureOpenAI",
+  methods: OPENAI_METHODS,
+  // Azure clients carry the API version and deployment they target
+  detect: (client) =>
+    isOpenAI(client) &&
+    typeof (client as AnyObject).apiVersion === "string" &&
+    "deploymentName" in client,
+  reducer: reduceOpenAI,
+});
+registerClient({
+  name: "GoogleGenAI",
+  methods: ["models.generateContent", "models.generateContentStream"],
+  detect: (client) =>
+    hasAll(client, ["models.generateContent", "models.generateContentStream"]),
+  reducer: reduceGemini,
+});
+registerClient({
+  name: "Ollama",
+  methods: ["chat", "generate"],
+  detect: (client) => hasAll(client, ["chat", "generate", "pull"]),
+  reducer: reduceOllama,
+});
+
+/**
+ * Find the registration for a client: by class name, walking up the
+ * prototype chain so subclasses are recognized, then by structure, so
+ * minified or wrapped clients are too.
+ */
+export function detectClient(client: object): ClientRegistration | undefined {
+  let proto: object | null = Object.getPrototypeOf(client);
+  while (proto !== null && proto !== Object.prototype) {
+    const ctor = (proto as { constructor?: unknown }).constructor;
+    if (typeof ctor === "function" && REGISTRY.has(ctor.name)) {
+      return REGISTRY.get(ctor.name);
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  const registrations = [...REGISTRY.values()].reverse();
+  return registrations.find((r) => r.detect?.(client));
+}
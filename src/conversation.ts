@@ -0,0 +1,477 @@
+import { ToolCall, normalizeToolCall } from "./tools.js";
+
+type AnyObject = Record<string, unknown>;
+
+export type ContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      /** The image URL; null for inline data. */
+      url: string | null;
+      mimeType: string | null;
+    }
+  | ({ type: "tool_call" } & ToolCall)
+  | {
+      type: "tool_result";
+      /** The id of the tool call answered. */
+      id: string | null;
+      content: unknown;
+      isError: boolean;
+    }
+  | { type: "thinking"; text: string };
+
+export interface ConversationMessage {
+  role: "user" | "assistant" | "tool";
+  content: ContentPart[];
+}
+
+/** Sampling parameters of a request; null where not set. */
+export interface SamplingParameters {
+  temperature: number | null;
+  topP: number | null;
+  topK: number | null;
+  maxTokens: number | null;
+  stop: string[] | null;
+  seed: number | null;
+}
+
+/**
+ * A call as a provider-agnostic conversation: the request's messages
+ * followed by the response's.
+ */
+export interface Conversation {
+  model: string | null;
+  system: string | null;
+  messages: ConversationMessage[];
+  parameters: SamplingParameters;
+}
+
+function isObject(value: unknown): value is AnyObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function num(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function list(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value === undefined || value === null ? [] : [value];
+}
+
+function image(url: unknown, mimeType: unknown): ContentPart {
+  // Inline data is left in the native payload
+  const href = str(url);
+  return {
+    type: "image",
+    url: href && !href.startsWith("data:") ? href : null,
+    mimeType: str(mimeType),
+  };
+}
+
+/**
+ * Normalize a Gemini part, which is keyed by kind rather than typed.
+ */
+function fromGeminiPart(part: AnyObject): ContentPart[] {
+  if (typeof part.text === "string") {
+    return [{ type: part.thought ? "thinking" : "text", text: part.text }];
+  }
+  if (isObject(part.inlineData)) {
+    return [image(null, part.inlineData.mimeType)];
+  }
+  if (isObject(part.fileData)) {
+    return [image(part.fileData.fileUri, part.fileData.mimeType)];
+  }
+  if (isObject(part.functionCall)) {
+    const fn = part.functionCall;
+    return [
+      { type: "tool_call", ...normalizeToolCall(fn.id, fn.name, fn.args) },
+    ];
+  }
+  if (isObject(part.functionResponse)) {
+    const fn = part.functionResponse;
+    return [
+      {
+        type: "tool_result",
+        id: str(fn.id),
+        content: fn.response ?? null,
+        isError: false,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Normalize a content part of any supported provider. Parts of kinds
+ * without an equivalent (e.g. documents or audio) are left out.
+ */
+function fromPart(part: unknown): ContentPart[] {
+  if (typeof part === "string") {
+    return [{ type: "text", text: part }];
+  }
+  if (!isObject(part)) {
+    return [];
+  }
+  switch (part.type) {
+    case "text":
+    case "input_text":
+    case "output_text":
+      return typeof part.text === "string"
+        ? [{ type: "text", text: part.text }]
+        : [];
+    case "image": {
+      // Anthropic sources, pi-ai inline data, and AI SDK images
+      const source = isObject(part.source) ? part.source : part;
+      return [
+        image(
+          source.url ?? (part.image instanceof URL ? part.image.href : null),
+          source.media_type ?? part.mimeType ?? part.mediaType,
+        ),
+      ];
+    }
+    case "image_url":
+      return [
+        image(isObject(part.image_url) ? part.image_url.url : null, null),
+      ];
+    case "input_image":
+      return [image(part.image_url, null)];
+    case "tool_use":
+    case "server_tool_use":
+      return [
+        {
+          type: "tool_call",
+          ...normalizeToolCall(part.id, part.name, part.input),
+        },
+      ];
+    case "toolCall":
+      return [
+        {
+          type: "tool_call",
+          ...normalizeToolCall(part.id, part.name, part.arguments),
+        },
+      ];
+    case "tool-call":
+      return [
+        {
+          type: "tool_call",
+          ...normalizeToolCall(
+            part.toolCallId,
+            part.toolName,
+            part.input ?? part.args,
+          ),
+        },
+      ];
+    case "function_call":
+      return [
+        {
+          type: "tool_call",
+          ...normalizeToolCall(
+            part.call_id ?? part.id,
+            part.name,
+            part.arguments,
+          ),
+        },
+      ];
+    case "tool_result":
+      return [
+        {
+          type: "tool_result",
+          id: str(part.tool_use_id),
+          content: part.content ?? null,
+          isError: part.is_error === true,
+        },
+      ];
+    case "tool-result":
+      return [
+        {
+          type: "tool_result",
+          id: str(part.toolCallId),
+          content: part.output ?? part.result ?? null,
+          isError: part.isError === true,
+        },
+      ];
+    case "function_call_output":
+      return [
+        {
+          type: "tool_result",
+          id: str(part.call_id),
+          content: part.output ?? null,
+          isError: false,
+        },
+      ];
+    case "thinking":
+      return typeof part.thinking === "string"
+        ? [{ type: "thinking", text: part.thinking }]
+        : [];
+    case "reasoning": {
+      // AI SDK reasoning parts, and Responses API reasoning summaries
+      const texts =
+        typeof part.text === "string"
+          ? [part.text]
+          : list(part.summary)
+              .filter(isObject)
+              .map((s) => str(s.text) ?? "");
+      return texts.map((text) => ({ type: "thinking", text }));
+    }
+    case undefined:
+      return fromGeminiPart(part);
+  }
+  return [];
+}
+
+function fromContent(content: unknown): ContentPart[] {
+  return list(content).flatMap(fromPart);
+}
+
+function role(value: unknown): ConversationMessage["role"] {
+  switch (value) {
+    case "assistant":
+    case "model":
+      return "assistant";
+    case "tool":
+    case "toolResult":
+    case "function":
+      return "tool";
+  }
+  return "user";
+}
+
+/**
+ * Normalize a native message, collecting system messages into `system`.
+ */
+function fromMessage(
+  message: unknown,
+  system: string[],
+): ConversationMessage[] {
+  if (typeof message === "string") {
+    return [{ role: "user", content: [{ type: "text", text: message }] }];
+  }
+  if (!isObject(message)) {
+    return [];
+  }
+  if (message.role === "system" || message.role === "developer") {
+    system.push(
+      fromContent(message.content ?? message.parts)
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join(""),
+    );
+    return [];
+  }
+  // Responses API items other than messages
+  if (message.role === undefined && typeof message.type === "string") {
+    const content = fromPart(message);
+    const itemRole =
+      message.type === "function_call_output" ? "tool" : "assistant";
+    return content.length > 0 ? [{ role: itemRole, content }] : [];
+  }
+  const content: ContentPart[] = [];
+  // Ollama and OpenAI-compatible reasoning
+  for (const key of ["thinking", "reasoning_content"]) {
+    if (typeof message[key] === "string" && message[key] !== "") {
+      content.push({ type: "thinking", text: message[key] as string });
+    }
+  }
+  content.push(...fromContent(message.content ?? message.parts));
+  // Ollama attaches images as base64 strings
+  content.push(...list(message.images).map(() => image(null, null)));
+  for (const item of list(message.tool_calls).filter(isObject)) {
+    const fn = isObject(item.function) ? item.function : {};
+    content.push({
+      type: "tool_call",
+      ...normalizeToolCall(item.id, fn.name, fn.arguments),
+    });
+  }
+  const normalized = role(message.role);
+  // Tool messages answer a call by id: OpenAI's tool_call_id, pi-ai's toolCallId
+  const callId = message.tool_call_id ?? message.toolCallId;
+  if (normalized === "tool" && !content.some((p) => p.type === "tool_result")) {
+    return [
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool_result",
+            id: str(callId),
+            content: message.content ?? null,
+            isError: message.isError === true,
+          },
+        ],
+      },
+    ];
+  }
+  return [{ role: normalized, content }];
+}
+
+/**
+ * Flatten a system prompt given as a string, text blocks, or Gemini content.
+ */
+function systemText(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const content = isObject(value) && "parts" in value ? value.parts : value;
+  return fromContent(content)
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
+
+/**
+ * The request's messages and system prompt, for any supported provider.
+ */
+function fromRequest(request: AnyObject): {
+  system: string[];
+  messages: ConversationMessage[];
+} {
+  const system: string[] = [];
+  const config = isObject(request.config) ? request.config : {};
+  for (const value of [
+    request.system,
+    request.systemPrompt,
+    request.instructions,
+    config.systemInstruction,
+  ]) {
+    const text = systemText(value);
+    if (text !== null) {
+      system.push(text);
+    }
+  }
+  const messages: ConversationMessage[] = [];
+  // Gemini contents may be a string, a single content, or a list
+  const native =
+    request.messages ?? request.input ?? request.contents ?? request.prompt;
+  const items =
+    isObject(native) && Array.isArray(native.parts) ? [native] : list(native);
+  for (const item of items) {
+    messages.push(...fromMessage(item, system));
+  }
+  return { system, messages };
+}
+
+/**
+ * The assistant message(s) of a response, or of a reassembled stream.
+ */
+function fromResponse(response: unknown): ConversationMessage[] {
+  if (!isObject(response)) {
+    return [];
+  }
+  if (Array.isArray(response.choices)) {
+    const choice = response.choices.find(isObject);
+    return choice && isObject(choice.message)
+      ? fromMessage({ role: "assistant", ...choice.message }, [])
+      : [];
+  }
+  if (Array.isArray(response.output)) {
+    return response.output.flatMap((item) => fromMessage(item, []));
+  }
+  if (Array.isArray(response.candidates)) {
+    const candidate = response.candidates.find(isObject);
+    return candidate && isObject(candidate.content)
+      ? fromMessage({ ...candidate.content, role: "model" }, [])
+      : [];
+  }
+  // Ollama chat
+  if (isObject(response.message)) {
+    return fromMessage(response.message, []);
+  }
+  // Ollama generate
+  if (typeof response.response === "string") {
+    return [
+      {
+        role: "assistant",
+        content: [{ type: "text", text: response.response }],
+      },
+    ];
+  }
+  // The AI SDK
+  if ("text" in response && !("content" in response)) {
+    const content: ContentPart[] = [
+      ...(typeof response.reasoning === "string"
+        ? fromPart({ type: "reasoning", text: response.reasoning })
+        : fromContent(response.reasoning)),
+      ...(typeof response.text === "string" && response.text !== ""
+        ? [{ type: "text" as const, text: response.text }]
+        : []),
+      ...list(response.toolCalls).flatMap((call) =>
+        fromPart({ type: "tool-call", ...(call as AnyObject) }),
+      ),
+    ];
+    return [{ role: "assistant", content }];
+  }
+  // Anthropic and pi-ai
+  if (Array.isArray(response.content)) {
+    return [{ role: "assistant", content: fromContent(response.content) }];
+  }
+  return [];
+}
+
+const PARAMETERS: Record<keyof SamplingParameters, string[]> = {
+  temperature: ["temperature"],
+  topP: ["top_p", "topP"],
+  topK: ["top_k", "topK"],
+  maxTokens: [
+    "max_tokens",
+    "max_completion_tokens",
+    "max_output_tokens",
+    "maxOutputTokens",
+    "maxTokens",
+    "num_predict",
+  ],
+  stop: ["stop", "stop_sequences", "stopSequences"],
+  seed: ["seed"],
+};
+
+/**
+ * Sampling parameters from the request, Gemini's `config`, or Ollama's
+ * `options`.
+ */
+function parameters(request: AnyObject): SamplingParameters {
+  const sources = [request, request.config, request.options].filter(isObject);
+  const find = (keys: string[]): unknown => {
+    for (const source of sources) {
+      for (const key of keys) {
+        if (source[key] !== undefined && source[key] !== null) {
+          return source[key];
+        }
+      }
+    }
+    return null;
+  };
+  const stop = find(PARAMETERS.stop);
+  return {
+    temperature: num(find(PARAMETERS.temperature)),
+    topP: num(find(PARAMETERS.topP)),
+    topK: num(find(PARAMETERS.topK)),
+    maxTokens: num(find(PARAMETERS.maxTokens)),
+    stop:
+      stop === null ? null : list(stop).filter((s) => typeof s === "string"),
+    seed: num(find(PARAMETERS.seed)),
+  };
+}
+
+/**
+ * Derive a conversation from a native request and its (reassembled)
+ * response, for every registered client, pi-ai, and the AI SDK. Parts
+ * without an equivalent are left out; the native payloads remain on the
+ * record.
+ */
+export function toConversation(
+  request: unknown,
+  response: unknown,
+): Conversation {
+  const native = isObject(request) ? request : {};
+  const { system, messages } = fromRequest(native);
+  messages.push(...fromResponse(response));
+  return {
+    model: str(native.model),
+    system: system.length > 0 ? system.join("\n") : null,
+    messages,
+    parameters: parameters(native),
+  };
+}
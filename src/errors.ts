@@ -0,0 +1,230 @@
+type AnyObject = Record<string, unknown>;
+
+/**
+ * A provider-independent classification of why a call failed.
+ */
+export type ErrorCategory =
+  | "rate_limit"
+  | "overloaded"
+  | "auth"
+  | "context_length_exceeded"
+  | "invalid_request"
+  | "timeout"
+  | "network"
+  | "aborted"
+  | "server"
+  | "unknown";
+
+/**
+ * A failed call's error, with the details SDK error classes carry beyond
+ * their message. Fields are null when the error does not provide them.
+ */
+export interface ErrorDetail {
+  /** The error class name, e.g. `RateLimitError`. */
+  name: string;
+  message: string;
+  category: ErrorCategory;
+  /** HTTP status of the failed response. */
+  status: number | null;
+  /** The provider's error code or type, e.g. `overloaded_error`. */
+  code: string | null;
+  /** The provider's request id, for support tickets. */
+  requestId: string | null;
+  /** Retry, rate-limit, and request-id response headers. */
+  headers: Record<string, string> | null;
+  /** The parsed error body of the failed response. */
+  body: unknown;
+  stack: string | null;
+}
+
+const KEPT_HEADERS =
+  /^(retry-after|retry-after-ms|request-id|x-request-id|x-ratelimit-.*|anthropic-ratelimit-.*)$/;
+
+const NETWORK_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+const CONTEXT_LENGTH =
+  /context[ _]length|context window|maximum context|prompt is too long|too many tokens|exceeds the maximum number of tokens/i;
+
+function isObject(value: unknown): value is AnyObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" && value !== "" ? value : null;
+}
+
+/**
+ * The class name, since the Anthropic and OpenAI SDKs leave `name` as
+ * `Error` on their subclasses.
+ */
+function errorName(err: Error): string {
+  const ctor = (err as { constructor?: { name?: unknown } }).constructor;
+  if (err.name === "Error" && typeof ctor?.name === "string" && ctor.name) {
+    return ctor.name;
+  }
+  return typeof err.name === "string" ? err.name : "Error";
+}
+
+/**
+ * Response headers as a `Headers` instance (OpenAI, fetch) or a plain object
+ * (Anthropic), keeping only retry, rate-limit, and request-id headers.
+ */
+function pickHeaders(headers: unknown): Record<string, string> | null {
+  if (!isObject(headers)) {
+    return null;
+  }
+  const entries: [string, unknown][] =
+    typeof headers.forEach === "function" && typeof headers.get === "function"
+      ? [...(headers as unknown as Iterable<[string, string]>)]
+      : Object.entries(headers);
+  const kept: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    const name = key.toLowerCase();
+    if (KEPT_HEADERS.test(name) && typeof value === "string") {
+      kept[name] = value;
+    }
+  }
+  return Object.keys(kept).length > 0 ? kept : null;
+}
+
+/**
+ * The error body: `error` on Anthropic, OpenAI, and Ollama errors; the
+ * message itself on Google errors, which carry the body as JSON text.
+ */
+function errorBody(err: AnyObject, message: string): unknown {
+  if (err.error !== undefined) {
+    return err.error;
+  }
+  if (message.startsWith("{")) {
+    try {
+      return JSON.parse(message);
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return null;
+}
+
+/**
+ * The provider's error code: OpenAI's `code` or `type`, Anthropic's
+ * `error.type`, Google's `error.status`, or a Node system error code.
+ */
+function errorCode(err: AnyObject, body: unknown): string | null {
+  const inner = isObject(body) && isObject(body.error) ? body.error : null;
+  const cause = isObject(err.cause) ? err.cause : null;
+  return (
+    str(err.code) ??
+    str(err.type) ??
+    str(inner?.type) ??
+    str(inner?.status) ??
+    str(inner?.code) ??
+    str(cause?.code)
+  );
+}
+
+function categorize(
+  name: string,
+  message: string,
+  status: number | null,
+  code: string | null,
+): ErrorCategory {
+  if (name === "AbortError" || name === "APIUserAbortError") {
+    return "aborted";
+  }
+  if (
+    /Timeout/.test(name) ||
+    code === "ETIMEDOUT" ||
+    status === 408 ||
+    status === 504
+  ) {
+    return "timeout";
+  }
+  if (
+    name === "APIConnectionError" ||
+    (code !== null && NETWORK_CODES.has(code)) ||
+    (name === "TypeError" && message === "fetch failed")
+  ) {
+    return "network";
+  }
+  if (code === "context_length_exceeded" || CONTEXT_LENGTH.test(message)) {
+    return "context_length_exceeded";
+  }
+  if (
+    status === 529 ||
+    status === 503 ||
+    code === "overloaded_error" ||
+    code === "UNAVAILABLE"
+  ) {
+    return "overloaded";
+  }
+  if (
+    status === 429 ||
+    code === "rate_limit_error" ||
+    code === "rate_limit_exceeded" ||
+    code === "RESOURCE_EXHAUSTED"
+  ) {
+    return "rate_limit";
+  }
+  if (status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status !== null && status >= 400 && status < 500) {
+    return "invalid_request";
+  }
+  if (status !== null && status >= 500) {
+    return "server";
+  }
+  return "unknown";
+}
+
+/**
+ * An Error for any thrown value or rejection reason, which may be a string
+ * or even `undefined`.
+ */
+export function toError(value: unknown): Error {
+  return value instanceof Error ? value : new Error(String(value));
+}
+
+/**
+ * Extract structured details from an error thrown by any supported SDK.
+ */
+export function describeError(err: Error): ErrorDetail {
+  const fields = err as unknown as AnyObject;
+  const name = errorName(err);
+  const message = typeof err.message === "string" ? err.message : String(err);
+  const status =
+    typeof fields.status === "number"
+      ? fields.status
+      : typeof fields.status_code === "number"
+        ? fields.status_code
+        : null;
+  const headers = pickHeaders(fields.headers);
+  const body = errorBody(fields, message);
+  const code = errorCode(fields, body);
+  return {
+    name,
+    message,
+    category: categorize(name, message, status, code),
+    status,
+    code,
+    requestId:
+      str(fields.request_id) ??
+      str(fields.requestID) ??
+      headers?.["request-id"] ??
+      headers?.["x-request-id"] ??
+      null,
+    headers,
+    body,
+    stack: typeof err.stack === "string" ? err.stack : null,
+  };
+}
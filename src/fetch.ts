@@ -0,0 +1,347 @@
+import { CallAdapter, CallObserver } from "./adapter.js";
+import {
+  ShuntOptions,
+  createPipeline,
+  createWrapper,
+  shuntlyDisabled,
+  wrapperState,
+} from "./shuntly.js";
+import { Sink } from "./sinks.js";
+
+type AnyObject = Record<string, unknown>;
+type AnyFunction = (...args: unknown[]) => unknown;
+type Fetch = typeof globalThis.fetch;
+
+/**
+ * Which requests `shuntFetch()` records. Every field given must match.
+ */
+export interface FetchRule {
+  /** Host, with port if any, e.g. "api.openai.com" or /\.openai\.azure\.com$/. */
+  host?: string | RegExp;
+  /** URL path; strings match as a prefix, e.g. "/v1/". */
+  path?: string | RegExp;
+  /** Client name for records; defaults to the host. */
+  client?: string;
+}
+
+export interface FetchShuntOptions extends Omit<
+  ShuntOptions,
+  "methods" | "proxy" | "replay" | "vercel"
+> {
+  /** Requests to record; defaults to `DEFAULT_FETCH_RULES`. */
+  match?: FetchRule[];
+  /**
+   * Response headers to keep in `http.headers`, by lowercase name or pattern;
+   * defaults to `DEFAULT_FETCH_HEADERS`.
+   */
+  headers?: (string | RegExp)[];
+}
+
+/**
+ * The HTTP side of a call recorded by `shuntFetch()`.
+ */
+export interface HttpExchange {
+  method: string;
+  /** The request URL, without any `key` query parameter. */
+  url: string;
+  /** Response status; null when no response arrived. */
+  status: number | null;
+  /** Response headers selected by the `headers` option. */
+  headers: Record<string, string>;
+  /**
+   * Retries the SDK made before this request, from the
+   * `x-stainless-retry-count` header the Anthropic and OpenAI SDKs send;
+   * null when absent. Each attempt is a record of its own.
+   */
+  attempt: number | null;
+}
+
+/**
+ * The LLM APIs recorded by default, named as `shunt()` names their clients so
+ * that streams reassemble the same way.
+ */
+export const DEFAULT_FETCH_RULES: FetchRule[] = [
+  { host: "api.anthropic.com", client: "Anthropic" },
+  { host: "api.openai.com", client: "OpenAI" },
+  { host: /\.openai\.azure\.com$/, client: "OpenAI" },
+  { host: "generativelanguage.googleapis.com", client: "GoogleGenAI" },
+  { host: /(^|\.)aiplatform\.googleapis\.com$/, client: "GoogleGenAI" },
+  { host: "localhost:11434", client: "Ollama" },
+  { host: "127.0.0.1:11434", client: "Ollama" },
+];
+
+export const DEFAULT_FETCH_HEADERS: (string | RegExp)[] = [
+  "content-type",
+  "request-id",
+  "x-request-id",
+  "retry-after",
+  "retry-after-ms",
+  "openai-processing-ms",
+  /ratelimit/,
+];
+
+/**
+ * A fetch call's URL, method, headers, and body, however they were passed.
+ */
+interface FetchCall {
+  url: URL;
+  method: string;
+  headers: Headers;
+  body: unknown;
+}
+
+function describeCall(args: unknown[]): FetchCall | null {
+  const [input, init = {}] = args as [unknown, RequestInit | undefined];
+  const request = input instanceof Request ? input : null;
+  let url: URL;
+  try {
+    url = new URL(request ? request.url : String(input));
+  } catch {
+    return null;
+  }
+  return {
+    url,
+    method: (init.method ?? request?.method ?? "GET").toUpperCase(),
+    headers: new Headers(init.headers ?? request?.headers),
+    // A Request's own body can only be read asynchronously, so is not recorded
+    body: init.body,
+  };
+}
+
+function matches(
+  pattern: string | RegExp | undefined,
+  value: string,
+  prefix = false,
+): boolean {
+  if (pattern === undefined) {
+    return true;
+  }
+  if (typeof pattern === "string") {
+    return prefix ? value.startsWith(pattern) : value === pattern;
+  }
+  return pattern.test(value);
+}
+
+function matchRule(rules: FetchRule[], url: URL): FetchRule | undefined {
+  return rules.find(
+    (rule) =>
+      matches(rule.host, url.host) && matches(rule.path, url.pathname, true),
+  );
+}
+
+/**
+ * Parse a JSON body; other text is kept as is.
+ */
+function parseBody(text: string): unknown {
+  if (text === "") {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * The request body, parsed if JSON. Uploads like form data are recorded as
+ * they were passed.
+ */
+function requestBody(body: unknown): AnyObject {
+  if (body === undefined || body === null) {
+    return {};
+  }
+  const parsed = typeof body === "string" ? parseBody(body) : body;
+  return parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)
+    ? (parsed as AnyObject)
+    : { body: parsed };
+}
+
+function selectHeaders(
+  headers: Headers,
+  names: (string | RegExp)[],
+): Record<string, string> {
+  const kept: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (names.some((pattern) => matches(pattern, name))) {
+      kept[name] = value;
+    }
+  });
+  return kept;
+}
+
+/**
+ * An error for a response with a failing status, shaped like the SDKs' API
+ * errors so that `describeError()` reads its status, headers, and body.
+ */
+function httpError(response: Response, body: unknown): Error {
+  const err = new Error(
+    `${response.status} ${response.statusText}`.trim(),
+  ) as Error & AnyObject;
+  err.name = "HttpError";
+  err.status = response.status;
+  err.headers = response.headers;
+  err.error = body;
+  return err;
+}
+
+/**
+ * Report each event of a server-sent event stream, or each line of a
+ * newline-delimited JSON stream (as Ollama streams), as a chunk.
+ */
+async function readStream(
+  body: ReadableStream<Uint8Array>,
+  sse: boolean,
+  observer: CallObserver,
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+  const dispatch = (payload: string) => {
+    // OpenAI ends its streams with a sentinel that is not an event
+    if (payload !== "" && payload !== "[DONE]") {
+      observer.chunk(parseBody(payload));
+    }
+  };
+  const line = (text: string) => {
+    if (!sse) {
+      dispatch(text.trim());
+    } else if (text === "") {
+      dispatch(data.join("\n"));
+      data = [];
+    } else if (text.startsWith("data:")) {
+      data.push(text.slice(text.startsWith("data: ") ? 6 : 5));
+    }
+  };
+  try {
+    for await (const bytes of body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop()!;
+      lines.forEach(line);
+    }
+    buffer += decoder.decode();
+    if (buffer !== "") {
+      line(buffer);
+    }
+    line("");
+    observer.finish();
+  } catch (err) {
+    observer.error(err as Error);
+  }
+}
+
+/**
+ * Record a response without consuming it: the body is read from a clone,
+ * leaving the original for the caller.
+ */
+function observeResponse(response: Response, observer: CallObserver): void {
+  const type = response.headers.get("content-type") ?? "";
+  const copy = response.clone();
+  if (!response.ok) {
+    copy.text().then(
+      (text) => observer.error(httpError(response, parseBody(text))),
+      (err: Error) => observer.error(err),
+    );
+  } else if (
+    copy.body &&
+    (type.includes("text/event-stream") || type.includes("ndjson"))
+  ) {
+    void readStream(copy.body, type.includes("text/event-stream"), observer);
+  } else {
+    copy.text().then(
+      (text) => observer.response(parseBody(text)),
+      (err: Error) => observer.error(err),
+    );
+  }
+}
+
+/**
+ * Adapt fetch calls matching `rules`: the request is the parsed body, and
+ * the response is parsed from a clone, as JSON or as stream chunks.
+ */
+function fetchAdapter(
+  rules: FetchRule[],
+  headers: (string | RegExp)[],
+): (args: unknown[]) => CallAdapter | null {
+  return (args) => {
+    const call = describeCall(args);
+    const rule = call && matchRule(rules, call.url);
+    if (!call || !rule) {
+      return null;
+    }
+    const url = new URL(call.url);
+    url.searchParams.delete("key");
+    const retries = call.headers.get("x-stainless-retry-count");
+    const http: HttpExchange = {
+      method: call.method,
+      url: url.toString(),
+      status: null,
+      headers: {},
+      attempt:
+        retries !== null && /^\d+$/.test(retries) ? Number(retries) : null,
+    };
+    return {
+      client: rule.client ?? call.url.host,
+      method: `${call.method} ${call.url.pathname}`,
+      request: requestBody(call.body),
+      args: () => args,
+      result: (result, observer) =>
+        (result as Promise<Response>).then(
+          (response) => {
+            http.status = response.status;
+            http.headers = selectHeaders(response.headers, headers);
+            observeResponse(response, observer);
+            return response;
+          },
+          (err: Error) => {
+            observer.error(err);
+            throw err;
+          },
+        ),
+      http: () => http,
+    };
+  };
+}
+
+/**
+ * Wrap a `fetch` implementation to record the LLM API calls made through
+ * it, whichever SDK (or none) makes them. Pass the result to an SDK's
+ * `fetch` option, or assign it to `globalThis.fetch`. Requests not matching
+ * `options.match` pass through unrecorded.
+ *
+ * Shunting a shunted fetch again replaces its settings; `unshunt()` returns
+ * the original.
+ */
+export function shuntFetch(
+  fetch: Fetch = globalThis.fetch,
+  sink?: Sink | null,
+  options: FetchShuntOptions = {},
+): Fetch {
+  if (shuntlyDisabled()) {
+    return fetch;
+  }
+  const existing = wrapperState(fetch);
+  if (existing) {
+    existing.pipeline = null;
+    fetch = existing.original as Fetch;
+  }
+  const rules = options.match ?? DEFAULT_FETCH_RULES;
+  const wrapper = createWrapper(
+    fetch as AnyFunction,
+    {
+      owner: null,
+      client: () => "fetch",
+      method: "fetch",
+      request: () => ({}),
+      adapt: fetchAdapter(rules, options.headers ?? DEFAULT_FETCH_HEADERS),
+      ignore: (args) => {
+        const call = describeCall(args);
+        return !call || !matchRule(rules, call.url);
+      },
+    },
+    createPipeline(sink, options),
+  );
+  Object.defineProperty(wrapper, "name", { value: "fetch" });
+  return wrapper as Fetch;
+}
@@ -0,0 +1,105 @@
+import type { LoadHook, ResolveHook } from "module";
+
+/**
+ * The exports of a package to instrument: classes whose instances are
+ * shunted on construction, instances to shunt, and standalone functions.
+ */
+export interface InstrumentTargets {
+  classes?: string[];
+  instances?: string[];
+  functions?: string[];
+}
+
+/**
+ * Packages instrumented by `shuntly/register`, keyed by the specifier they
+ * are imported by.
+ */
+export const INSTRUMENTED: Record<string, InstrumentTargets> = {
+  "@anthropic-ai/sdk": { classes: ["default", "Anthropic"] },
+  openai: { classes: ["default", "OpenAI", "AzureOpenAI"] },
+  "@google/genai": { classes: ["GoogleGenAI"] },
+  ollama: { classes: ["Ollama"], instances: ["default"] },
+  "@mariozechner/pi-ai": {
+    functions: ["stream", "complete", "streamSimple", "completeSimple"],
+  },
+};
+
+/** Query parameter marking a resolved URL for instrumentation. */
+const MARK = "shuntly-instrument";
+
+/**
+ * Whether a module belongs to an instrumented package. SDKs these import,
+ * as pi-ai imports Anthropic's and OpenAI's, are left as they are: their
+ * calls are recorded through the package that made them.
+ */
+function isInstrumented(url: string | undefined): boolean {
+  return (
+    url !== undefined &&
+    Object.keys(INSTRUMENTED).some((name) =>
+      url.includes(`/node_modules/${name}/`),
+    )
+  );
+}
+
+/**
+ * Resolve imports of an instrumented package by name to a marked URL, which
+ * `load` serves as a module re-exporting the package with its targets
+ * wrapped.
+ */
+export const resolve: ResolveHook = async (specifier, context, nextResolve) => {
+  const resolved = await nextResolve(specifier, context);
+  if (
+    !Object.hasOwn(INSTRUMENTED, specifier) ||
+    !resolved.url.startsWith("file:") ||
+    isInstrumented(context.parentURL)
+  ) {
+    return resolved;
+  }
+  const url = new URL(resolved.url);
+  url.searchParams.set(MARK, specifier);
+  return { ...resolved, url: url.href };
+};
+
+export const load: LoadHook = async (url, context, nextLoad) => {
+  const marked = new URL(url);
+  const name = marked.searchParams.get(MARK);
+  if (name === null || !Object.hasOwn(INSTRUMENTED, name)) {
+    return nextLoad(url, context);
+  }
+  marked.searchParams.delete(MARK);
+  return {
+    format: "module",
+    source: instrumentedSource(marked.href, INSTRUMENTED[name]),
+    shortCircuit: true,
+  };
+};
+
+/**
+ * A module re-exporting everything from `url`, with the target exports
+ * replaced by their instrumented versions.
+ */
+export function instrumentedSource(
+  url: string,
+  targets: InstrumentTargets,
+): string {
+  const runtime = new URL("./instrument.js", import.meta.url).href;
+  const names = [
+    ...(targets.classes ?? []),
+    ...(targets.instances ?? []),
+    ...(targets.functions ?? []),
+  ];
+  const lines = [
+    `import * as original from ${JSON.stringify(url)};`,
+    `import { instrumentModule } from ${JSON.stringify(runtime)};`,
+    `export * from ${JSON.stringify(url)};`,
+    `const wrapped = instrumentModule(original, ${JSON.stringify(targets)});`,
+  ];
+  for (const name of names) {
+    lines.push(
+      name === "default"
+        ? `export default wrapped.default;`
+        : `export const ${name} = wrapped[${JSON.stringify(name)}];`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
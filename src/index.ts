@@ -1,10 +1,110 @@
-export { shunt } from "./shuntly.js";
-export { ShuntlyRecord, ShuntlyRecordData } from "./record.js";
+export {
+  shunt,
+  unshunt,
+  shuntScoped,
+  ShuntHandle,
+  ShuntOptions,
+  ChunkPolicy,
+} from "./shuntly.js";
+export {
+  ShuntlyRecord,
+  ShuntlyRecordData,
+  RecordStatus,
+  Termination,
+  SCHEMA_VERSION,
+} from "./record.js";
+export {
+  RECORD_SCHEMAS,
+  JsonSchema,
+  ValidationResult,
+  validateRecord,
+  migrateRecord,
+} from "./schema.js";
 export {
   Sink,
+  SinkHealth,
   SinkStream,
   SinkFile,
   SinkPipe,
   SinkRotating,
   SinkMany,
+  sinkFromSpec,
 } from "./sinks.js";
+export {
+  Redaction,
+  RedactOptions,
+  RedactDetector,
+  RedactFn,
+  DEFAULT_DETECTORS,
+  DEFAULT_SENSITIVE_KEYS,
+} from "./redact.js";
+export {
+  BlobStore,
+  BlobOptions,
+  BlobRef,
+  BlobEncoding,
+  isBlobRef,
+  DEFAULT_BLOB_MIN_BYTES,
+  DEFAULT_BLOB_MEDIA_TYPES,
+} from "./blobs.js";
+export {
+  StreamReducer,
+  STREAM_REDUCERS,
+  reduceAnthropic,
+  reduceOpenAI,
+  reduceOpenAIChat,
+  reduceOpenAICompletions,
+  reduceOpenAIResponses,
+  reduceOpenAITranscription,
+  reduceGemini,
+  reduceOllama,
+  reducePiAi,
+} from "./reducers.js";
+export { StreamTiming, GapStats, isContentChunk } from "./timing.js";
+export {
+  span,
+  currentSpan,
+  traceparent,
+  parseTraceparent,
+  SpanContext,
+  RecordTrace,
+} from "./trace.js";
+export { Usage, extractUsage } from "./usage.js";
+export {
+  ToolDefinition,
+  ToolCall,
+  extractToolDefinitions,
+  extractToolCalls,
+} from "./tools.js";
+export {
+  Conversation,
+  ConversationMessage,
+  ContentPart,
+  SamplingParameters,
+  toConversation,
+} from "./conversation.js";
+export { CapturePolicy, CaptureDecision } from "./capture.js";
+export { ErrorDetail, ErrorCategory, describeError } from "./errors.js";
+export {
+  ReplayMode,
+  ReplayOptions,
+  RequestMatch,
+  ReplayMissError,
+} from "./replay.js";
+export { BinaryDescriptor, describeBinary } from "./binary.js";
+export {
+  serializeValue,
+  SerializeOptions,
+  SerializedError,
+  DEFAULT_SERIALIZE_OPTIONS,
+} from "./serialize.js";
+export { ClientRegistration, registerClient } from "./clients.js";
+export { Middleware, CallContext } from "./middleware.js";
+export {
+  shuntFetch,
+  FetchRule,
+  FetchShuntOptions,
+  HttpExchange,
+  DEFAULT_FETCH_RULES,
+  DEFAULT_FETCH_HEADERS,
+} from "./fetch.js";
@@ -0,0 +1,117 @@
+import { InstrumentTargets } from "./hooks.js";
+import { shunt } from "./shuntly.js";
+
+type AnyObject = Record<string, unknown>;
+type AnyFunction = (...args: unknown[]) => unknown;
+type AnyClass = new (...args: unknown[]) => object;
+
+/**
+ * Shunt a client to the default sink. A client Shuntly does not recognize
+ * is left as it is, with a warning, rather than fail the code creating it.
+ */
+function shuntClient<T extends object>(client: T): T {
+  try {
+    return shunt(client);
+  } catch (err) {
+    process.emitWarning(
+      `Shuntly could not instrument ${client.constructor?.name ?? "a client"}: ${(err as Error).message}`,
+    );
+    return client;
+  }
+}
+
+/**
+ * Shunt a client constructed through an instrumented class, and the clones
+ * its methods return: methods like `withOptions()` construct them through
+ * `this.constructor`, the class itself rather than its stand-in.
+ */
+function shuntInstance<T extends object>(client: T): T {
+  const shunted = shuntClient(client);
+  const proto = Object.getPrototypeOf(shunted);
+  const seen = new Set<string>(["constructor"]);
+  for (
+    let p = proto;
+    p && p !== Object.prototype;
+    p = Object.getPrototypeOf(p)
+  ) {
+    for (const name of Object.getOwnPropertyNames(p)) {
+      const method = Object.getOwnPropertyDescriptor(p, name)?.value;
+      // Methods shunted in place are own properties of the client
+      if (
+        seen.has(name) ||
+        Object.hasOwn(shunted, name) ||
+        typeof method !== "function"
+      ) {
+        continue;
+      }
+      seen.add(name);
+      Object.defineProperty(shunted, name, {
+        configurable: true,
+        writable: true,
+        value(this: unknown, ...args: unknown[]) {
+          const value = (method as AnyFunction).apply(this, args);
+          return value !== null &&
+            typeof value === "object" &&
+            value !== shunted &&
+            Object.getPrototypeOf(value) === proto
+            ? shuntInstance(value)
+            : value;
+        },
+      });
+    }
+  }
+  return shunted;
+}
+
+/**
+ * A stand-in for a client class that shunts every instance, including those
+ * of subclasses and their clones, as it is constructed. Static members,
+ * `instanceof`, and subclassing work as with the class itself.
+ */
+function instrumentClass(cls: AnyClass): AnyClass {
+  return new Proxy(cls, {
+    construct(target, args, newTarget) {
+      return shuntInstance(Reflect.construct(target, args, newTarget));
+    },
+  });
+}
+
+/**
+ * The target exports of a module, instrumented: used by the modules that
+ * `shuntly/register` serves in place of SDK packages. Exports that are
+ * missing or of an unexpected type are passed through.
+ */
+export function instrumentModule(
+  exports: AnyObject,
+  targets: InstrumentTargets,
+): AnyObject {
+  // Packages export a class both as default and by name; wrap it once
+  const wrapped = new Map<unknown, unknown>();
+  const wrap = (value: unknown, instrument: (value: never) => unknown) => {
+    if (!wrapped.has(value)) {
+      wrapped.set(value, instrument(value as never));
+    }
+    return wrapped.get(value);
+  };
+  const result: AnyObject = {};
+  for (const name of targets.classes ?? []) {
+    const value = exports[name];
+    result[name] =
+      typeof value === "function" ? wrap(value, instrumentClass) : value;
+  }
+  for (const name of targets.instances ?? []) {
+    const value = exports[name];
+    result[name] =
+      value !== null && typeof value === "object"
+        ? wrap(value, shuntClient)
+        : value;
+  }
+  for (const name of targets.functions ?? []) {
+    const value = exports[name];
+    result[name] =
+      typeof value === "function"
+        ? wrap(value, (fn: AnyFunction) => shunt(fn))
+        : value;
+  }
+  return result;
+}
@@ -0,0 +1,147 @@
+import type { ShuntlyRecord } from "./record.js";
+
+/**
+ * A call about to be made, as seen by `onRequest`.
+ */
+export interface CallContext {
+  client: string;
+  method: string;
+  request: Record<string, unknown>;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Hooks on the path from an SDK call to `sink.write()`. Any hook may be
+ * async. A hook that throws or rejects is skipped, never failing the call.
+ */
+export interface Middleware {
+  /** Observe a call before it is made; the call does not wait for it. */
+  onRequest?: (call: CallContext) => MaybePromise<void>;
+  /**
+   * Enrich or transform a record before it is written: return a replacement
+   * (see `ShuntlyRecord.with()`), null to drop it, or nothing to keep it.
+   * Hooks run in order, each given the previous one's record.
+   */
+  beforeWrite?: (
+    record: ShuntlyRecord,
+  ) => MaybePromise<ShuntlyRecord | null | void>;
+  /** React to a record after it is written. */
+  onResponse?: (record: ShuntlyRecord) => MaybePromise<void>;
+  /**
+   * Called when one of this middleware's hooks fails. Defaults to emitting a
+   * process warning.
+   */
+  onError?: (error: unknown, hook: string) => void;
+}
+
+function isPromise(value: unknown): value is Promise<unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
+
+/**
+ * The middleware of a `shunt()` call. Records go through synchronously
+ * unless a `beforeWrite` hook returns a promise.
+ */
+export class MiddlewareChain {
+  constructor(private readonly middleware: Middleware[]) {}
+
+  /**
+   * Run every `onRequest` hook without waiting for async ones.
+   */
+  request(call: CallContext): void {
+    for (const mw of this.middleware) {
+      if (mw.onRequest) {
+        this.observe(mw, "onRequest", () => mw.onRequest!(call));
+      }
+    }
+  }
+
+  /**
+   * Pass a record through the `beforeWrite` hooks, write what remains, and
+   * then run the `onResponse` hooks.
+   */
+  write(
+    record: ShuntlyRecord,
+    write: (record: ShuntlyRecord) => void,
+  ): void | Promise<void> {
+    return this.transform(record, 0, (final) => {
+      write(final);
+      for (const mw of this.middleware) {
+        if (mw.onResponse) {
+          this.observe(mw, "onResponse", () => mw.onResponse!(final));
+        }
+      }
+    });
+  }
+
+  private transform(
+    record: ShuntlyRecord,
+    start: number,
+    done: (record: ShuntlyRecord) => void,
+  ): void | Promise<void> {
+    for (let i = start; i < this.middleware.length; i++) {
+      const mw = this.middleware[i];
+      if (!mw.beforeWrite) {
+        continue;
+      }
+      let result: MaybePromise<ShuntlyRecord | null | void>;
+      try {
+        result = mw.beforeWrite(record);
+      } catch (err) {
+        this.report(mw, err, "beforeWrite");
+        continue;
+      }
+      if (isPromise(result)) {
+        const current = record;
+        return result.then(
+          (next) =>
+            next === null
+              ? undefined
+              : this.transform(next ?? current, i + 1, done),
+          (err) => {
+            this.report(mw, err, "beforeWrite");
+            return this.transform(current, i + 1, done);
+          },
+        );
+      }
+      if (result === null) {
+        return;
+      }
+      record = result ?? record;
+    }
+    done(record);
+  }
+
+  /**
+   * Run a hook whose result is only observed, catching sync and async errors.
+   */
+  private observe(mw: Middleware, hook: string, run: () => unknown): void {
+    try {
+      const result = run();
+      if (isPromise(result)) {
+        result.then(undefined, (err) => this.report(mw, err, hook));
+      }
+    } catch (err) {
+      this.report(mw, err, hook);
+    }
+  }
+
+  private report(mw: Middleware, error: unknown, hook: string): void {
+    try {
+      if (mw.onError) {
+        mw.onError(error, hook);
+      } else {
+        process.emitWarning(
+          `Shuntly middleware ${hook} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    } catch {
+      // A failing error handler must not fail the call either
+    }
+  }
+}
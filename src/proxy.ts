@@ -0,0 +1,176 @@
+type AnyFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Wrap the method at `method` (a dotted path) found on `parent`; `root` is
+ * the client, or the clone, it was reached from.
+ */
+export type MethodWrapper = (
+  func: AnyFunction,
+  parent: object,
+  method: string,
+  root: object,
+) => AnyFunction;
+
+/** The object behind each proxy. */
+const PROXY_TARGETS: WeakMap<object, object> = new WeakMap();
+
+/**
+ * The object behind a proxy from `createProxy()`, or undefined.
+ */
+export function proxyTarget(value: object): object | undefined {
+  return PROXY_TARGETS.get(value);
+}
+
+/**
+ * Whether a function is a class, or a constructor reached as `constructor`,
+ * to be returned as is: bound, it could no longer be called with `new`.
+ */
+function isClass(func: AnyFunction, prop: string | symbol): boolean {
+  return (
+    prop === "constructor" ||
+    Function.prototype.toString.call(func).startsWith("class")
+  );
+}
+
+/**
+ * Every dotted prefix of the method paths: the objects to proxy on the way
+ * to a method.
+ */
+function prefixes(methods: string[]): Set<string> {
+  const result = new Set<string>();
+  for (const method of methods) {
+    const parts = method.split(".");
+    for (let i = 1; i < parts.length; i++) {
+      result.add(parts.slice(0, i).join("."));
+    }
+  }
+  return result;
+}
+
+/**
+ * Return a Proxy over `client` that wraps the given method paths when they
+ * are accessed, leaving the client itself untouched.
+ *
+ * Resources are resolved on every access, so lazily created or replaced ones
+ * are covered. Methods run with the real object as `this`, so SDKs using
+ * private class fields keep working; a root-level method returning a clone
+ * of the client (like `withOptions()`) returns a proxy of the clone. Each
+ * proxy targets an empty stand-in with the same prototype, so `instanceof`
+ * holds and frozen objects can be proxied without violating Proxy
+ * invariants.
+ */
+export function createProxy<T extends object>(
+  client: T,
+  methods: string[],
+  wrap: MethodWrapper,
+): T {
+  const paths = new Set(methods);
+  const parents = prefixes(methods);
+  const proxies: WeakMap<object, object> = new WeakMap();
+  const wrappers: WeakMap<
+    object,
+    Map<string, [AnyFunction, AnyFunction]>
+  > = new WeakMap();
+  const bound: WeakMap<
+    object,
+    WeakMap<AnyFunction, AnyFunction>
+  > = new WeakMap();
+
+  const wrapped = (
+    real: object,
+    func: AnyFunction,
+    method: string,
+    root: object,
+  ): AnyFunction => {
+    let cache = wrappers.get(real);
+    if (!cache) {
+      cache = new Map();
+      wrappers.set(real, cache);
+    }
+    const cached = cache.get(method);
+    // Re-wrap if the method was replaced since
+    if (cached && cached[0] === func) {
+      return cached[1];
+    }
+    const wrapper = wrap(func, real, method, root);
+    cache.set(method, [func, wrapper]);
+    return wrapper;
+  };
+
+  const bind = (real: object, func: AnyFunction, isRoot: boolean) => {
+    let cache = bound.get(real);
+    if (!cache) {
+      cache = new WeakMap();
+      bound.set(real, cache);
+    }
+    let result = cache.get(func);
+    if (!result) {
+      result = function (...args: unknown[]): unknown {
+        const value = func.apply(real, args);
+        // Follow clones of the client, e.g. withOptions()
+        if (
+          isRoot &&
+          value !== null &&
+          typeof value === "object" &&
+          value !== real &&
+          Object.getPrototypeOf(value) === Object.getPrototypeOf(real)
+        ) {
+          return proxyOf(value, "", value);
+        }
+        return value;
+      };
+      cache.set(func, result);
+    }
+    return result;
+  };
+
+  const proxyOf = (real: object, path: string, root: object): object => {
+    const existing = proxies.get(real);
+    if (existing) {
+      return existing;
+    }
+    const standIn = Object.create(Object.getPrototypeOf(real));
+    const proxy = new Proxy(standIn, {
+      get(_, prop) {
+        const value = Reflect.get(real, prop, real);
+        const qualified =
+          typeof prop === "string" ? (path ? `${path}.${prop}` : prop) : null;
+        if (typeof value === "function") {
+          if (qualified !== null && paths.has(qualified)) {
+            return wrapped(real, value as AnyFunction, qualified, root);
+          }
+          return isClass(value as AnyFunction, prop)
+            ? value
+            : bind(real, value as AnyFunction, path === "");
+        }
+        if (
+          qualified !== null &&
+          parents.has(qualified) &&
+          value !== null &&
+          typeof value === "object"
+        ) {
+          return proxyOf(value, qualified, root);
+        }
+        return value;
+      },
+      set: (_, prop, value) => Reflect.set(real, prop, value, real),
+      has: (_, prop) => Reflect.has(real, prop),
+      ownKeys: () => Reflect.ownKeys(real),
+      getOwnPropertyDescriptor(_, prop) {
+        const descriptor = Reflect.getOwnPropertyDescriptor(real, prop);
+        // The stand-in has no own properties to be consistent with
+        return descriptor && { ...descriptor, configurable: true };
+      },
+      defineProperty: (_, prop, descriptor) =>
+        Reflect.defineProperty(real, prop, descriptor),
+      deleteProperty: (_, prop) => Reflect.deleteProperty(real, prop),
+      getPrototypeOf: () => Reflect.getPrototypeOf(real),
+      setPrototypeOf: (_, proto) => Reflect.setPrototypeOf(real, proto),
+    });
+    proxies.set(real, proxy);
+    PROXY_TARGETS.set(proxy, real);
+    return proxy;
+  };
+
+  return proxyOf(client, "", client) as T;
+}
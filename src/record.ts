@@ -1,41 +1,164 @@
+import { randomUUID } from "crypto";
 import * as os from "os";
+import { CaptureDecision } from "./capture.js";
+import { Conversation } from "./conversation.js";
+import { ErrorDetail } from "./errors.js";
+import { HttpExchange } from "./fetch.js";
+import { StreamTiming } from "./timing.js";
+import { ToolCall, ToolDefinition } from "./tools.js";
+import { SerializeOptions, serializeValue } from "./serialize.js";
+import { RecordTrace, childSpan, recordTrace } from "./trace.js";
+import { Usage } from "./usage.js";
+
+/**
+ * The version of the record format written by this package. Records without
+ * a `schemaVersion` are version 1, the format before versioning; see
+ * `migrateRecord()`.
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * How a call ended: `early_return` when the caller stopped consuming a stream
+ * before it finished, `aborted` when it was cancelled (e.g. by an
+ * `AbortSignal`), and `timeout` when it timed out.
+ */
+export type RecordStatus =
+  | "ok"
+  | "error"
+  | "aborted"
+  | "early_return"
+  | "timeout";
+
+/**
+ * What ended a call that did not complete.
+ */
+export interface Termination {
+  /** The error's name, or "return" when the caller stopped iterating. */
+  trigger: string;
+  /** Chunks received before the stream ended; null for calls not streamed. */
+  chunksReceived: number | null;
+}
 
 export interface ShuntlyRecordData {
+  /** The record format version, `SCHEMA_VERSION` when written. */
+  schemaVersion: number;
+  id: string;
   timestamp: string;
   hostname: string;
   user: string;
   pid: number;
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  parentSpanName: string | null;
   client: string;
   method: string;
   request: Record<string, unknown>;
   response: unknown;
   durationMs: number;
   error: string | null;
+  /** The error's status, request id, body, and category; null on success. */
+  errorDetail: ErrorDetail | null;
+  status: RecordStatus;
+  /** What ended the call; present only when the status is not `ok`. */
+  termination?: Termination;
+  usage: Usage | null;
+  /** Tools offered in the request. */
+  tools: ToolDefinition[];
+  /** Tool calls in the response, reassembled for streams. */
+  toolCalls: ToolCall[];
+  /** Stream chunks collapsed into a final response; present only for streams. */
+  reassembled?: unknown;
+  /** Chunk timing; present only for streams. */
+  streamTiming?: StreamTiming;
+  /** Paths redacted before writing; present only when redaction is configured. */
+  redacted?: string[];
+  /** Hashes of payloads moved to the blob store; present only when any were. */
+  blobs?: string[];
+  /** Why the record was captured; present only when a capture policy is configured. */
+  capture?: CaptureDecision;
+  /** Provider-agnostic view of the call; present only when enabled. */
+  conversation?: Conversation;
+  /** HTTP status, headers, and retry attempt; present only for `shuntFetch()`. */
+  http?: HttpExchange;
+  /** Fields added by middleware; present only when set. */
+  metadata?: Record<string, unknown>;
 }
 
 export class ShuntlyRecord {
+  readonly schemaVersion: number;
+  readonly id: string;
   readonly timestamp: string;
   readonly hostname: string;
   readonly user: string;
   readonly pid: number;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId: string | null;
+  readonly parentSpanName: string | null;
   readonly client: string;
   readonly method: string;
   readonly request: Record<string, unknown>;
   readonly response: unknown;
   readonly durationMs: number;
   readonly error: string | null;
+  readonly errorDetail: ErrorDetail | null;
+  readonly status: RecordStatus;
+  readonly termination?: Termination;
+  readonly usage: Usage | null;
+  readonly tools: ToolDefinition[];
+  readonly toolCalls: ToolCall[];
+  readonly reassembled?: unknown;
+  readonly streamTiming?: StreamTiming;
+  readonly redacted?: string[];
+  readonly blobs?: string[];
+  readonly capture?: CaptureDecision;
+  readonly conversation?: Conversation;
+  readonly http?: HttpExchange;
+  readonly metadata?: Record<string, unknown>;
+  /** Limits applied when the record is serialized by `toJSON()`. */
+  private readonly serialize: SerializeOptions;
 
-  constructor(data: ShuntlyRecordData) {
+  constructor(data: ShuntlyRecordData, serialize: SerializeOptions = {}) {
+    this.schemaVersion = data.schemaVersion;
+    this.id = data.id;
     this.timestamp = data.timestamp;
     this.hostname = data.hostname;
     this.user = data.user;
     this.pid = data.pid;
+    this.traceId = data.traceId;
+    this.spanId = data.spanId;
+    this.parentSpanId = data.parentSpanId;
+    this.parentSpanName = data.parentSpanName;
     this.client = data.client;
     this.method = data.method;
     this.request = data.request;
     this.response = data.response;
     this.durationMs = data.durationMs;
     this.error = data.error;
+    this.errorDetail = data.errorDetail;
+    this.status = data.status;
+    this.termination = data.termination;
+    this.usage = data.usage;
+    this.tools = data.tools;
+    this.toolCalls = data.toolCalls;
+    this.reassembled = data.reassembled;
+    this.streamTiming = data.streamTiming;
+    this.redacted = data.redacted;
+    this.blobs = data.blobs;
+    this.capture = data.capture;
+    this.conversation = data.conversation;
+    this.http = data.http;
+    this.metadata = data.metadata;
+    this.serialize = serialize;
+  }
+
+  /**
+   * A copy of the record with the given fields replaced, e.g. by middleware
+   * adding `metadata` or rewriting `request`.
+   */
+  with(changes: Partial<ShuntlyRecordData>): ShuntlyRecord {
+    return new ShuntlyRecord({ ...this, ...changes }, this.serialize);
   }
 
   static build(params: {
@@ -45,33 +168,116 @@ export class ShuntlyRecord {
     response: unknown;
     durationMs: number;
     error?: string | null;
+    errorDetail?: ErrorDetail | null;
+    status?: RecordStatus;
+    termination?: Termination;
+    usage?: Usage | null;
+    tools?: ToolDefinition[];
+    toolCalls?: ToolCall[];
+    reassembled?: unknown;
+    streamTiming?: StreamTiming;
+    redacted?: string[];
+    blobs?: string[];
+    trace?: RecordTrace;
+    capture?: CaptureDecision;
+    conversation?: Conversation;
+    http?: HttpExchange;
+    serialize?: SerializeOptions;
   }): ShuntlyRecord {
-    return new ShuntlyRecord({
-      timestamp: new Date().toISOString(),
-      hostname: os.hostname(),
-      user: os.userInfo().username,
-      pid: process.pid,
-      client: params.client,
-      method: params.method,
-      request: params.request,
-      response: params.response,
-      durationMs: params.durationMs,
-      error: params.error ?? null,
-    });
+    const trace = params.trace ?? recordTrace(childSpan(undefined, ""));
+    return new ShuntlyRecord(
+      {
+        schemaVersion: SCHEMA_VERSION,
+        id: randomUUID(),
+        timestamp: new Date().toISOString(),
+        hostname: os.hostname(),
+        user: os.userInfo().username,
+        pid: process.pid,
+        traceId: trace.traceId,
+        spanId: trace.spanId,
+        parentSpanId: trace.parentSpanId,
+        parentSpanName: trace.parentSpanName,
+        client: params.client,
+        method: params.method,
+        request: params.request,
+        response: params.response,
+        durationMs: params.durationMs,
+        error: params.error ?? null,
+        errorDetail: params.errorDetail ?? null,
+        status: params.status ?? (params.error ? "error" : "ok"),
+        termination: params.termination,
+        usage: params.usage ?? null,
+        tools: params.tools ?? [],
+        toolCalls: params.toolCalls ?? [],
+        reassembled: params.reassembled,
+        streamTiming: params.streamTiming,
+        redacted: params.redacted,
+        blobs: params.blobs,
+        capture: params.capture,
+        conversation: params.conversation,
+        http: params.http,
+      },
+      params.serialize,
+    );
   }
 
   toJSON(): ShuntlyRecordData {
     return {
+      schemaVersion: this.schemaVersion,
+      id: this.id,
       timestamp: this.timestamp,
       hostname: this.hostname,
       user: this.user,
       pid: this.pid,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      parentSpanName: this.parentSpanName,
       client: this.client,
       method: this.method,
-      request: this.request,
-      response: serializeResponse(this.response),
+      request: serializeResponse(this.request, this.serialize) as Record<
+        string,
+        unknown
+      >,
+      response: serializeResponse(this.response, this.serialize),
       durationMs: this.durationMs,
       error: this.error,
+      errorDetail: serializeResponse(
+        this.errorDetail,
+        this.serialize,
+      ) as ErrorDetail | null,
+      status: this.status,
+      ...(this.termination !== undefined && {
+        termination: this.termination,
+      }),
+      usage: this.usage,
+      tools: serializeResponse(this.tools, this.serialize) as ToolDefinition[],
+      toolCalls: serializeResponse(
+        this.toolCalls,
+        this.serialize,
+      ) as ToolCall[],
+      ...(this.reassembled !== undefined && {
+        reassembled: serializeResponse(this.reassembled, this.serialize),
+      }),
+      ...(this.streamTiming !== undefined && {
+        streamTiming: this.streamTiming,
+      }),
+      ...(this.redacted !== undefined && { redacted: this.redacted }),
+      ...(this.blobs !== undefined && { blobs: this.blobs }),
+      ...(this.capture !== undefined && { capture: this.capture }),
+      ...(this.conversation !== undefined && {
+        conversation: serializeResponse(
+          this.conversation,
+          this.serialize,
+        ) as Conversation,
+      }),
+      ...(this.http !== undefined && { http: this.http }),
+      ...(this.metadata !== undefined && {
+        metadata: serializeResponse(this.metadata, this.serialize) as Record<
+          string,
+          unknown
+        >,
+      }),
     };
   }
 
@@ -81,30 +287,12 @@ export class ShuntlyRecord {
 }
 
 /**
- * Serialize response objects that may have toJSON or similar methods.
+ * Serialize request and response values, which may be SDK objects with
+ * toJSON methods, binary payloads, or anything else; see `serializeValue()`.
  */
-function serializeResponse(obj: unknown): unknown {
-  if (obj === null || obj === undefined) {
-    return obj;
-  }
-  if (typeof obj !== "object") {
-    return obj;
-  }
-  // Handle objects with toJSON (standard JS convention)
-  if (
-    "toJSON" in obj &&
-    typeof (obj as { toJSON: unknown }).toJSON === "function"
-  ) {
-    return (obj as { toJSON: () => unknown }).toJSON();
-  }
-  // Handle arrays
-  if (Array.isArray(obj)) {
-    return obj.map(serializeResponse);
-  }
-  // Plain object - recursively serialize
-  const result: Record<string, unknown> = {};
-  for (const [key, value] of Object.entries(obj)) {
-    result[key] = serializeResponse(value);
-  }
-  return result;
+export function serializeResponse(
+  obj: unknown,
+  options: SerializeOptions = {},
+): unknown {
+  return serializeValue(obj, options);
 }
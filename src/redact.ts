@@ -0,0 +1,263 @@
+/**
+ * A function that may replace a leaf value. Return the value unchanged to
+ * leave it as-is; any other return value is treated as a redaction.
+ */
+export type RedactFn = (value: unknown, path: string) => unknown;
+
+/**
+ * A named pattern matched against every string value in a record.
+ */
+export interface RedactDetector {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface RedactOptions {
+  /**
+   * Paths whose values are replaced entirely, rooted at a record field such
+   * as `request`, `response`, or `reassembled`. Supports `[*]` for any array element, `*` for any key, and
+   * `[n]` for a specific index, e.g. `request.messages[*].content`.
+   */
+  paths?: string[];
+  /**
+   * Detectors applied to all string values; matches are replaced with
+   * `[REDACTED:<name>]`. Defaults to `DEFAULT_DETECTORS`; pass `[]` to disable.
+   */
+  detectors?: RedactDetector[];
+  /**
+   * Object keys whose values are always replaced. Defaults to
+   * `DEFAULT_SENSITIVE_KEYS`; pass `null` to disable.
+   */
+  keys?: RegExp | null;
+  /** Custom redactors called with every leaf value and its path. */
+  functions?: RedactFn[];
+  /** Replacement for values redacted by path or key. */
+  replacement?: string;
+}
+
+export interface RedactionResult<T> {
+  fields: T;
+  redacted: string[];
+}
+
+export const DEFAULT_DETECTORS: RedactDetector[] = [
+  { name: "anthropic_key", pattern: /sk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai_key", pattern: /sk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "google_key", pattern: /AIza[0-9A-Za-z_-]{35}/g },
+  { name: "aws_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "bearer", pattern: /\bBearer\s+[A-Za-z0-9._~+/-]+=*/g },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: "phone",
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
+  },
+];
+
+export const DEFAULT_SENSITIVE_KEYS =
+  /^(?:api[-_]?key|x-api-key|authorization|password|secret|client[-_]?secret|access[-_]?token)$/i;
+
+const DEFAULT_REPLACEMENT = "[REDACTED]";
+
+type PathSegment = string | number | typeof ANY;
+
+const ANY = Symbol("any");
+
+/**
+ * Parse a path like `request.messages[*].content` into segments.
+ */
+function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const match of path.matchAll(/\[(\*|\d+)\]|[^.[\]]+/g)) {
+    if (match[1] !== undefined) {
+      segments.push(match[1] === "*" ? ANY : Number(match[1]));
+    } else {
+      segments.push(match[0] === "*" ? ANY : match[0]);
+    }
+  }
+  if (segments.length === 0) {
+    throw new Error(`Invalid redaction path: ${path}`);
+  }
+  return segments;
+}
+
+function joinPath(parent: string, key: string | number): string {
+  return typeof key === "number" ? `${parent}[${key}]` : `${parent}.${key}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Copy plain objects and arrays so redaction never mutates caller-owned data.
+ * Other values (class instances, buffers) are shared.
+ */
+function clone(value: unknown, seen: WeakMap<object, unknown>): unknown {
+  if (Array.isArray(value) || isPlainObject(value)) {
+    const existing = seen.get(value);
+    if (existing !== undefined) {
+      return existing;
+    }
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      for (const item of value) {
+        copy.push(clone(item, seen));
+      }
+      return copy;
+    }
+    const copy: Record<string, unknown> = {};
+    seen.set(value, copy);
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = clone(item, seen);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Applies path rules, key rules, detectors, and custom functions to a
+ * request/response pair. Compiled once per `shunt()` call.
+ */
+export class Redaction {
+  private readonly paths: PathSegment[][];
+  private readonly detectors: RedactDetector[];
+  private readonly keys: RegExp | null;
+  private readonly functions: RedactFn[];
+  private readonly replacement: string;
+
+  constructor(options: RedactOptions = {}) {
+    this.paths = (options.paths ?? []).map(parsePath);
+    this.detectors = options.detectors ?? DEFAULT_DETECTORS;
+    this.keys =
+      options.keys === undefined ? DEFAULT_SENSITIVE_KEYS : options.keys;
+    this.functions = options.functions ?? [];
+    this.replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+  }
+
+  /**
+   * Redact a copy of the given record fields; path rules are rooted at the
+   * field names (e.g. `request`, `response`).
+   */
+  apply<T extends Record<string, unknown>>(fields: T): RedactionResult<T> {
+    const root = clone(fields, new WeakMap()) as Record<string, unknown>;
+    const redacted = new Set<string>();
+
+    for (const segments of this.paths) {
+      this.applyPath(root, segments, 0, "", redacted);
+    }
+    for (const key of Object.keys(root)) {
+      root[key] = this.walk(root[key], key, redacted, new WeakSet());
+    }
+
+    return { fields: root as T, redacted: [...redacted] };
+  }
+
+  private applyPath(
+    node: unknown,
+    segments: PathSegment[],
+    index: number,
+    path: string,
+    redacted: Set<string>,
+  ): void {
+    if (node === null || typeof node !== "object") {
+      return;
+    }
+    const container = node as Record<string | number, unknown>;
+    const segment = segments[index];
+    let keys: (string | number)[];
+    if (segment === ANY) {
+      keys = Array.isArray(node)
+        ? node.map((_, i) => i)
+        : Object.keys(container);
+    } else {
+      keys = segment in container ? [segment] : [];
+    }
+    const last = index === segments.length - 1;
+    for (const key of keys) {
+      const childPath = path === "" ? String(key) : joinPath(path, key);
+      if (last) {
+        if (container[key] !== undefined && container[key] !== null) {
+          container[key] = this.replacement;
+          redacted.add(childPath);
+        }
+      } else {
+        this.applyPath(
+          container[key],
+          segments,
+          index + 1,
+          childPath,
+          redacted,
+        );
+      }
+    }
+  }
+
+  private walk(
+    value: unknown,
+    path: string,
+    redacted: Set<string>,
+    seen: WeakSet<object>,
+  ): unknown {
+    if (Array.isArray(value) || isPlainObject(value)) {
+      if (seen.has(value)) {
+        return value;
+      }
+      seen.add(value);
+      const container = value as Record<string | number, unknown>;
+      const keys: (string | number)[] = Array.isArray(value)
+        ? value.map((_, i) => i)
+        : Object.keys(value);
+      for (const key of keys) {
+        const childPath = joinPath(path, key);
+        const child = container[key];
+        if (
+          typeof key === "string" &&
+          this.keys?.test(key) &&
+          child !== undefined &&
+          child !== null &&
+          child !== this.replacement
+        ) {
+          container[key] = this.replacement;
+          redacted.add(childPath);
+          continue;
+        }
+        container[key] = this.walk(child, childPath, redacted, seen);
+      }
+      return value;
+    }
+
+    let result = value;
+    if (typeof value === "string") {
+      let text = value;
+      for (const detector of this.detectors) {
+        const replaced = text.replace(
+          detector.pattern,
+          `[REDACTED:${detector.name}]`,
+        );
+        if (replaced !== text) {
+          text = replaced;
+          redacted.add(path);
+        }
+      }
+      result = text;
+    }
+    for (const fn of this.functions) {
+      const replaced = fn(result, path);
+      if (!Object.is(replaced, result)) {
+        result = replaced;
+        redacted.add(path);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,457 @@
+type AnyObject = Record<string, unknown>;
+
+/**
+ * Collapse serialized stream chunks into the equivalent non-streaming
+ * response. Returns undefined if the chunks cannot be reduced.
+ */
+export type StreamReducer = (chunks: unknown[]) => unknown;
+
+function isObject(value: unknown): value is AnyObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function objects(chunks: unknown[]): AnyObject[] {
+  return chunks.filter(isObject);
+}
+
+/**
+ * Parse accumulated partial JSON, keeping the raw string if it is incomplete.
+ */
+function parseJsonOr(text: string, fallback: unknown): unknown {
+  if (text === "") {
+    return fallback;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Anthropic `messages.create({ stream: true })` / `messages.stream` events.
+ */
+export function reduceAnthropic(chunks: unknown[]): unknown {
+  let message: AnyObject | undefined;
+  const content: AnyObject[] = [];
+  const partialJson = new Map<number, string>();
+
+  for (const event of objects(chunks)) {
+    switch (event.type) {
+      case "message_start":
+        if (isObject(event.message)) {
+          message = { ...event.message };
+          if (isObject(message.usage)) {
+            message.usage = { ...message.usage };
+          }
+        }
+        break;
+      case "content_block_start":
+        if (isObject(event.content_block)) {
+          content[event.index as number] = { ...event.content_block };
+        }
+        break;
+      case "content_block_delta": {
+        const index = event.index as number;
+        const block = content[index];
+        const delta = event.delta as AnyObject | undefined;
+        if (!block || !delta) break;
+        if (delta.type === "text_delta") {
+          block.text = String(block.text ?? "") + delta.text;
+        } else if (delta.type === "thinking_delta") {
+          block.thinking = String(block.thinking ?? "") + delta.thinking;
+        } else if (delta.type === "signature_delta") {
+          block.signature = delta.signature;
+        } else if (delta.type === "input_json_delta") {
+          partialJson.set(
+            index,
+            (partialJson.get(index) ?? "") + delta.partial_json,
+          );
+        } else if (delta.type === "citations_delta") {
+          block.citations = [
+            ...((block.citations as unknown[]) ?? []),
+            delta.citation,
+          ];
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const index = event.index as number;
+        const json = partialJson.get(index);
+        if (json !== undefined && content[index]) {
+          content[index].input = parseJsonOr(json, content[index].input);
+          partialJson.delete(index);
+        }
+        break;
+      }
+      case "message_delta":
+        if (message) {
+          Object.assign(message, event.delta);
+          if (isObject(event.usage)) {
+            message.usage = { ...(message.usage as AnyObject), ...event.usage };
+          }
+        }
+        break;
+    }
+  }
+
+  if (!message) {
+    return undefined;
+  }
+  message.content = content.filter((block) => block !== undefined);
+  return message;
+}
+
+/**
+ * OpenAI `chat.completion.chunk` objects.
+ */
+export function reduceOpenAIChat(chunks: unknown[]): unknown {
+  const items = objects(chunks);
+  if (items.length === 0) {
+    return undefined;
+  }
+  const choices = new Map<number, AnyObject>();
+  let result: AnyObject = {};
+
+  for (const chunk of items) {
+    const { choices: chunkChoices, ...rest } = chunk;
+    result = { ...result, ...rest };
+    for (const choice of (chunkChoices as AnyObject[] | undefined) ?? []) {
+      const index = (choice.index as number) ?? 0;
+      let target = choices.get(index);
+      if (!target) {
+        target = { index, message: { role: "assistant", content: null } };
+        choices.set(index, target);
+      }
+      const message = target.message as AnyObject;
+      const delta = (choice.delta as AnyObject | undefined) ?? {};
+      if (typeof delta.role === "string") {
+        message.role = delta.role;
+      }
+      for (const key of ["content", "refusal", "reasoning_content"]) {
+        if (typeof delta[key] === "string") {
+          message[key] = String(message[key] ?? "") + delta[key];
+        }
+      }
+      for (const call of (delta.tool_calls as AnyObject[] | undefined) ?? []) {
+        const calls = ((message.tool_calls as AnyObject[]) ??= []);
+        const callIndex = (call.index as number) ?? calls.length;
+        const fn = (call.function as AnyObject | undefined) ?? {};
+        let existing = calls[callIndex];
+        if (!existing) {
+          existing = {
+            id: call.id,
+            type: call.type ?? "function",
+            function: { name: "", arguments: "" },
+          };
+          calls[callIndex] = existing;
+        }
+        if (call.id) existing.id = call.id;
+        const target = existing.function as AnyObject;
+        if (typeof fn.name === "string") target.name += fn.name;
+        if (typeof fn.arguments === "string") target.arguments += fn.arguments;
+      }
+      if (choice.finish_reason != null) {
+        target.finish_reason = choice.finish_reason;
+      }
+      if (choice.logprobs != null) {
+        target.logprobs = choice.logprobs;
+      }
+    }
+  }
+
+  return {
+    ...result,
+    object: "chat.completion",
+    choices: [...choices.values()].sort(
+      (a, b) => (a.index as number) - (b.index as number),
+    ),
+  };
+}
+
+/**
+ * OpenAI legacy `completions.create` `text_completion` chunks.
+ */
+export function reduceOpenAICompletions(chunks: unknown[]): unknown {
+  const items = objects(chunks);
+  if (items.length === 0) {
+    return undefined;
+  }
+  const choices = new Map<number, AnyObject>();
+  let result: AnyObject = {};
+
+  for (const chunk of items) {
+    const { choices: chunkChoices, ...rest } = chunk;
+    result = { ...result, ...rest };
+    for (const choice of (chunkChoices as AnyObject[] | undefined) ?? []) {
+      const index = (choice.index as number) ?? 0;
+      let target = choices.get(index);
+      if (!target) {
+        target = { index, text: "" };
+        choices.set(index, target);
+      }
+      if (typeof choice.text === "string") {
+        target.text = String(target.text) + choice.text;
+      }
+      if (choice.finish_reason != null) {
+        target.finish_reason = choice.finish_reason;
+      }
+      if (choice.logprobs != null) {
+        target.logprobs = choice.logprobs;
+      }
+    }
+  }
+
+  return {
+    ...result,
+    choices: [...choices.values()].sort(
+      (a, b) => (a.index as number) - (b.index as number),
+    ),
+  };
+}
+
+/**
+ * OpenAI Responses API stream events. Every lifecycle event carries a
+ * response snapshot, and the terminal one (`response.completed`, `.failed`,
+ * or `.incomplete`) carries the full output.
+ */
+export function reduceOpenAIResponses(chunks: unknown[]): unknown {
+  let response: AnyObject | undefined;
+  const output: AnyObject[] = [];
+
+  for (const event of objects(chunks)) {
+    if (isObject(event.response)) {
+      response = { ...event.response };
+    } else if (
+      event.type === "response.output_item.done" &&
+      isObject(event.item)
+    ) {
+      output[event.output_index as number] = event.item;
+    }
+  }
+
+  if (!response) {
+    return undefined;
+  }
+  // Stream ended early: use the output items completed so far
+  if (!Array.isArray(response.output) || response.output.length === 0) {
+    response.output = output.filter((item) => item !== undefined);
+  }
+  return response;
+}
+
+/**
+ * OpenAI `audio.transcriptions.create({ stream: true })` events.
+ */
+export function reduceOpenAITranscription(chunks: unknown[]): unknown {
+  const items = objects(chunks);
+  const done = items.find((event) => event.type === "transcript.text.done");
+  if (done) {
+    const result: AnyObject = { ...done };
+    delete result.type;
+    return result;
+  }
+  if (items.length === 0) {
+    return undefined;
+  }
+  return {
+    text: items
+      .filter((event) => event.type === "transcript.text.delta")
+      .map((event) => event.delta)
+      .join(""),
+  };
+}
+
+/**
+ * Any OpenAI stream, dispatched on the shape of its first chunk.
+ */
+export function reduceOpenAI(chunks: unknown[]): unknown {
+  const first = objects(chunks)[0];
+  if (!first) {
+    return undefined;
+  }
+  if (typeof first.type === "string") {
+    if (first.type.startsWith("response.")) {
+      return reduceOpenAIResponses(chunks);
+    }
+    if (first.type.startsWith("transcript.")) {
+      return reduceOpenAITranscription(chunks);
+    }
+  }
+  if (first.object === "text_completion") {
+    return reduceOpenAICompletions(chunks);
+  }
+  return reduceOpenAIChat(chunks);
+}
+
+/**
+ * Google GenAI `generateContentStream` responses.
+ */
+export function reduceGemini(chunks: unknown[]): unknown {
+  const items = objects(chunks);
+  if (items.length === 0) {
+    return undefined;
+  }
+  const candidates = new Map<number, AnyObject>();
+  let result: AnyObject = {};
+
+  for (const chunk of items) {
+    const { candidates: chunkCandidates, ...rest } = chunk;
+    result = { ...result, ...rest };
+    for (const candidate of (chunkCandidates as AnyObject[] | undefined) ??
+      []) {
+      const index = (candidate.index as number) ?? 0;
+      const { content, ...candidateRest } = candidate;
+      let target = candidates.get(index);
+      if (!target) {
+        target = { content: { role: "model", parts: [] } };
+        candidates.set(index, target);
+      }
+      Object.assign(target, candidateRest);
+      const targetContent = target.content as AnyObject;
+      const parts = targetContent.parts as AnyObject[];
+      if (isObject(content)) {
+        if (typeof content.role === "string") {
+          targetContent.role = content.role;
+        }
+        for (const part of (content.parts as AnyObject[] | undefined) ?? []) {
+          const last = parts[parts.length - 1];
+          // Merge consecutive text parts of the same kind
+          if (
+            last &&
+            typeof part.text === "string" &&
+            typeof last.text === "string" &&
+            Boolean(last.thought) === Boolean(part.thought) &&
+            Object.keys(part).every((k) => ["text", "thought"].includes(k))
+          ) {
+            last.text += part.text;
+          } else {
+            parts.push({ ...part });
+          }
+        }
+      }
+    }
+  }
+
+  if (candidates.size === 0) {
+    return undefined;
+  }
+  result.candidates = [...candidates.values()];
+  return result;
+}
+
+/**
+ * Ollama `chat` and `generate` chunks; the final chunk carries the stats.
+ */
+export function reduceOllama(chunks: unknown[]): unknown {
+  const items = objects(chunks);
+  if (items.length === 0) {
+    return undefined;
+  }
+  const result: AnyObject = { ...items[items.length - 1] };
+
+  if (items.some((chunk) => isObject(chunk.message))) {
+    const message: AnyObject = { role: "assistant", content: "" };
+    for (const chunk of items) {
+      const delta = chunk.message as AnyObject | undefined;
+      if (!delta) continue;
+      if (typeof delta.role === "string") message.role = delta.role;
+      if (typeof delta.content === "string") {
+        message.content = String(message.content) + delta.content;
+      }
+      if (typeof delta.thinking === "string") {
+        message.thinking = String(message.thinking ?? "") + delta.thinking;
+      }
+      for (const key of ["tool_calls", "images"]) {
+        if (Array.isArray(delta[key])) {
+          message[key] = [
+            ...((message[key] as unknown[]) ?? []),
+            ...delta[key],
+          ];
+        }
+      }
+    }
+    result.message = message;
+  } else {
+    let response = "";
+    let thinking: string | undefined;
+    for (const chunk of items) {
+      if (typeof chunk.response === "string") response += chunk.response;
+      if (typeof chunk.thinking === "string") {
+        thinking = (thinking ?? "") + chunk.thinking;
+      }
+    }
+    result.response = response;
+    if (thinking !== undefined) result.thinking = thinking;
+  }
+  return result;
+}
+
+/**
+ * pi-ai `AssistantMessageEvent`s; the terminal event carries the message.
+ */
+export function reducePiAi(chunks: unknown[]): unknown {
+  const items = objects(chunks);
+  for (let i = items.length - 1; i >= 0; i--) {
+    const event = items[i];
+    if (event.type === "done") return event.message;
+    if (event.type === "error") return event.error;
+  }
+  // Stream ended early: fall back to the latest partial message
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (isObject(items[i].partial)) return items[i].partial;
+  }
+  return undefined;
+}
+
+/**
+ * Reducers keyed by client name, as in the method registry.
+ */
+export const STREAM_REDUCERS: Map<string, StreamReducer> = new Map([
+  ["Anthropic", reduceAnthropic],
+  ["OpenAI", reduceOpenAI],
+  ["GoogleGenAI", reduceGemini],
+  ["Ollama", reduceOllama],
+]);
+
+/**
+ * Pick a reducer from the shape of the first chunk, for standalone functions
+ * and clients without a registered reducer.
+ */
+function detectReducer(chunks: unknown[]): StreamReducer | undefined {
+  const first = objects(chunks)[0];
+  if (!first) {
+    return undefined;
+  }
+  if (first.type === "message_start") return reduceAnthropic;
+  if (first.object === "chat.completion.chunk") return reduceOpenAIChat;
+  if (first.object === "text_completion") return reduceOpenAICompletions;
+  if (typeof first.type === "string" && first.type.startsWith("response.")) {
+    return reduceOpenAIResponses;
+  }
+  if ("candidates" in first || "usageMetadata" in first) return reduceGemini;
+  if (typeof first.done === "boolean" && "model" in first) return reduceOllama;
+  if (
+    typeof first.type === "string" &&
+    ("partial" in first || first.type === "done" || first.type === "error")
+  ) {
+    return reducePiAi;
+  }
+  return undefined;
+}
+
+/**
+ * Reassemble serialized chunks for a client. Never throws: a reducer that
+ * fails simply yields no reassembled response.
+ */
+export function reassemble(clientName: string, chunks: unknown[]): unknown {
+  const reducer = STREAM_REDUCERS.get(clientName) ?? detectReducer(chunks);
+  if (!reducer) {
+    return undefined;
+  }
+  try {
+    return reducer(chunks);
+  } catch {
+    return undefined;
+  }
+}
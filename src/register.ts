@@ -0,0 +1,16 @@
+/**
+ * Instrument LLM SDKs without code changes: `node --import shuntly/register`.
+ *
+ * Registers module hooks so that importing an SDK package by name, anywhere
+ * in the process, gets a version whose client classes shunt every instance
+ * they create, and whose standalone functions (as with pi-ai) are shunted.
+ * Records go to the sink given by `SHUNTLY_SINK`, or else to stderr; with
+ * `SHUNTLY_DISABLED` set, nothing is registered. Packages loaded with
+ * `require()` are not instrumented.
+ */
+import { register } from "module";
+import { shuntlyDisabled } from "./shuntly.js";
+
+if (!shuntlyDisabled()) {
+  register("./hooks.js", import.meta.url);
+}
@@ -0,0 +1,270 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BlobStore } from "./blobs.js";
+import { ShuntlyRecordData, serializeResponse } from "./record.js";
+import { migrateRecord } from "./schema.js";
+import { SerializeOptions } from "./serialize.js";
+import { Sink, SinkFile, SinkRotating } from "./sinks.js";
+
+type AnyObject = Record<string, unknown>;
+
+/**
+ * - `record`: call the SDK and write records as usual.
+ * - `replay`: serve every call from the cassette; unmatched calls fail.
+ * - `record-missing`: serve matched calls, call the SDK (and record) otherwise.
+ */
+export type ReplayMode = "record" | "replay" | "record-missing";
+
+/**
+ * How a live call is matched to a recorded one: the whole request
+ * (`"exact"`), the request without some dotted paths, or a custom key.
+ */
+export type RequestMatch =
+  | "exact"
+  | { ignore: string[] }
+  | ((call: { client: string; method: string; request: unknown }) => string);
+
+export interface ReplayOptions {
+  mode: ReplayMode;
+  /** A JSONL file, or a `SinkRotating` directory of JSONL files. */
+  source: string;
+  match?: RequestMatch;
+  /**
+   * The blob directory of records written with the `blobs` option, to
+   * restore their payloads before matching.
+   */
+  blobs?: string;
+}
+
+/**
+ * Thrown (as a rejection) in `replay` mode when no record matches a call.
+ */
+export class ReplayMissError extends Error {
+  constructor(client: string, method: string) {
+    super(`No recorded response for ${client}.${method} matching the request`);
+    this.name = "ReplayMissError";
+  }
+}
+
+/**
+ * JSON with object keys sorted, so key order does not affect matching.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as AnyObject)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as AnyObject)[key])}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Remove a dotted path like `metadata.user_id` from a JSON value.
+ */
+function deletePath(value: unknown, parts: string[]): void {
+  if (value === null || typeof value !== "object") {
+    return;
+  }
+  const [head, ...rest] = parts;
+  if (rest.length === 0) {
+    delete (value as AnyObject)[head];
+  } else {
+    deletePath((value as AnyObject)[head], rest);
+  }
+}
+
+/**
+ * Read records from a JSONL file or a directory of them, skipping lines
+ * that do not parse.
+ */
+function readRecords(source: string): ShuntlyRecordData[] {
+  if (!fs.existsSync(source)) {
+    return [];
+  }
+  const files = fs.statSync(source).isDirectory()
+    ? fs
+        .readdirSync(source)
+        .filter((name) => name.endsWith(".jsonl"))
+        .sort()
+        .map((name) => path.join(source, name))
+    : [source];
+
+  const records: ShuntlyRecordData[] = [];
+  for (const file of files) {
+    for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        records.push(migrateRecord(JSON.parse(line)));
+      } catch {
+        // Partial line from an interrupted write, or a record of a newer
+        // version than this package reads
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Recorded calls indexed by request key. Identical requests are served in
+ * recorded order; the last one is repeated once the others are used.
+ */
+export class Cassette {
+  readonly mode: ReplayMode;
+  private readonly source: string;
+  private readonly match: RequestMatch;
+  private readonly blobs: BlobStore | null;
+  private readonly serialize: SerializeOptions;
+  private index: Map<string, ShuntlyRecordData[]> | null = null;
+
+  constructor(options: ReplayOptions, serialize: SerializeOptions = {}) {
+    this.mode = options.mode;
+    this.source = options.source;
+    this.match = options.match ?? "exact";
+    this.blobs = options.blobs ? new BlobStore(options.blobs) : null;
+    this.serialize = serialize;
+  }
+
+  private key(client: string, method: string, request: unknown): string {
+    // Compare requests as they appear in the log
+    const json = JSON.parse(
+      JSON.stringify(serializeResponse(request, this.serialize)) ?? "null",
+    );
+    if (typeof this.match === "function") {
+      return this.match({ client, method, request: json });
+    }
+    if (this.match !== "exact") {
+      for (const ignored of this.match.ignore) {
+        deletePath(json, ignored.split("."));
+      }
+    }
+    return `${client}\0${method}\0${stableStringify(json)}`;
+  }
+
+  private load(): Map<string, ShuntlyRecordData[]> {
+    if (this.index === null) {
+      this.index = new Map();
+      for (const read of readRecords(this.source)) {
+        const record = this.blobs ? this.blobs.rehydrate(read) : read;
+        const key = this.key(record.client, record.method, record.request);
+        const queue = this.index.get(key);
+        if (queue) {
+          queue.push(record);
+        } else {
+          this.index.set(key, [record]);
+        }
+      }
+    }
+    return this.index;
+  }
+
+  /**
+   * Find the recorded call matching a live one.
+   */
+  lookup(
+    client: string,
+    method: string,
+    request: unknown,
+  ): ShuntlyRecordData | undefined {
+    const queue = this.load().get(this.key(client, method, request));
+    if (!queue || queue.length === 0) {
+      return undefined;
+    }
+    return queue.length > 1 ? queue.shift() : queue[0];
+  }
+}
+
+/**
+ * Rebuild an error from a record: from `errorDetail` when present, keeping
+ * the status, headers, and body where SDK errors carry them, else from the
+ * `error` string ("Name: message").
+ */
+function recordedError(record: ShuntlyRecordData): Error {
+  const detail = record.errorDetail;
+  if (detail) {
+    const err = new Error(detail.message);
+    err.name = detail.name;
+    Object.assign(err, {
+      status: detail.status ?? undefined,
+      headers: detail.headers ?? undefined,
+      error: detail.body ?? undefined,
+    });
+    return err;
+  }
+  const error = record.error ?? "";
+  const separator = error.indexOf(": ");
+  const err = new Error(separator >= 0 ? error.slice(separator + 2) : error);
+  if (separator > 0) {
+    err.name = error.slice(0, separator);
+  }
+  return err;
+}
+
+/**
+ * A failed call, shaped both as the rejected promise a method like
+ * `messages.create` returns and as a stream from a method like pi-ai's
+ * `stream`, which fails on its first `next()`; a replayed call cannot tell
+ * which the SDK would have returned. Unless consumed, the failure is not
+ * reported as an unhandled rejection.
+ */
+export function replayFailure(err: Error): unknown {
+  const failed = Promise.reject(err);
+  failed.catch(() => {});
+  return Object.assign(failed, {
+    [Symbol.asyncIterator]: () => ({
+      next: () => Promise.reject(err),
+      return: async () => ({ done: true, value: undefined }),
+    }),
+    result: () => failed,
+  });
+}
+
+/**
+ * Produce what the SDK call would have: a failure (see `replayFailure()`)
+ * for errors, an async iterable re-emitting the chunks for streams, else a
+ * promise of the response. Replayed streams also expose `result()`, as
+ * pi-ai streams do, but not event helpers like `on()` or `finalMessage()`.
+ */
+export function replayRecord(record: ShuntlyRecordData): unknown {
+  if (record.error !== null) {
+    return replayFailure(recordedError(record));
+  }
+  if (record.streamTiming !== undefined) {
+    if (!Array.isArray(record.response)) {
+      return replayFailure(
+        new Error(
+          `Cannot replay stream for ${record.client}.${record.method}: chunks were not kept`,
+        ),
+      );
+    }
+    const chunks = record.response;
+    return {
+      async *[Symbol.asyncIterator]() {
+        yield* chunks;
+      },
+      result: async () => record.reassembled,
+    };
+  }
+  return Promise.resolve(record.response);
+}
+
+/**
+ * The default sink for recording into a cassette: a `SinkRotating` for a
+ * directory, else a `SinkFile`.
+ */
+export function cassetteSink(options: ReplayOptions): Sink {
+  if (
+    fs.existsSync(options.source) &&
+    fs.statSync(options.source).isDirectory()
+  ) {
+    return new SinkRotating(options.source);
+  }
+  return new SinkFile(options.source);
+}
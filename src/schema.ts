@@ -0,0 +1,373 @@
+import { createHash } from "crypto";
+import { SCHEMA_VERSION, ShuntlyRecordData } from "./record.js";
+
+type AnyObject = Record<string, unknown>;
+
+/**
+ * The subset of JSON Schema the record schemas use, and `validateRecord()`
+ * checks.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+}
+
+type JsonType =
+  | "null"
+  | "boolean"
+  | "object"
+  | "array"
+  | "number"
+  | "integer"
+  | "string";
+
+const DRAFT = "https://json-schema.org/draft/2020-12/schema";
+
+const STRING: JsonSchema = { type: "string" };
+const NULLABLE_STRING: JsonSchema = { type: ["string", "null"] };
+const NULLABLE_NUMBER: JsonSchema = { type: ["number", "null"] };
+const NULLABLE_INTEGER: JsonSchema = { type: ["integer", "null"] };
+const HEADERS: JsonSchema = { type: "object", additionalProperties: STRING };
+
+/**
+ * An object schema requiring all of its properties.
+ */
+function strict(
+  properties: Record<string, JsonSchema>,
+  type: JsonType | JsonType[] = "object",
+): JsonSchema {
+  return { type, properties, required: Object.keys(properties) };
+}
+
+const V1_PROPERTIES: Record<string, JsonSchema> = {
+  timestamp: STRING,
+  hostname: STRING,
+  user: STRING,
+  pid: { type: "integer" },
+  client: STRING,
+  method: STRING,
+  request: { type: "object" },
+  response: {},
+  durationMs: { type: "number" },
+  error: NULLABLE_STRING,
+};
+
+const TOOL_CALL: Record<string, JsonSchema> = {
+  id: NULLABLE_STRING,
+  name: STRING,
+  arguments: {},
+  parseError: NULLABLE_STRING,
+};
+
+const V2_REQUIRED: Record<string, JsonSchema> = {
+  schemaVersion: { const: 2 },
+  id: STRING,
+  timestamp: STRING,
+  hostname: STRING,
+  user: STRING,
+  pid: { type: "integer" },
+  traceId: STRING,
+  spanId: STRING,
+  parentSpanId: NULLABLE_STRING,
+  parentSpanName: NULLABLE_STRING,
+  client: STRING,
+  method: STRING,
+  request: { type: "object" },
+  response: {},
+  durationMs: { type: "number" },
+  error: NULLABLE_STRING,
+  errorDetail: strict(
+    {
+      name: STRING,
+      message: STRING,
+      category: {
+        enum: [
+          "rate_limit",
+          "overloaded",
+          "auth",
+          "context_length_exceeded",
+          "invalid_request",
+          "timeout",
+          "network",
+          "aborted",
+          "server",
+          "unknown",
+        ],
+      },
+      status: NULLABLE_INTEGER,
+      code: NULLABLE_STRING,
+      requestId: NULLABLE_STRING,
+      headers: { ...HEADERS, type: ["object", "null"] },
+      body: {},
+      stack: NULLABLE_STRING,
+    },
+    ["object", "null"],
+  ),
+  status: { enum: ["ok", "error", "aborted", "early_return", "timeout"] },
+  usage: strict(
+    {
+      inputTokens: NULLABLE_INTEGER,
+      outputTokens: NULLABLE_INTEGER,
+      cacheReadTokens: NULLABLE_INTEGER,
+      cacheWriteTokens: NULLABLE_INTEGER,
+      reasoningTokens: NULLABLE_INTEGER,
+      totalTokens: NULLABLE_INTEGER,
+    },
+    ["object", "null"],
+  ),
+  tools: {
+    type: "array",
+    items: strict({
+      name: STRING,
+      description: NULLABLE_STRING,
+      parameters: {},
+    }),
+  },
+  toolCalls: { type: "array", items: strict(TOOL_CALL) },
+};
+
+const V2_OPTIONAL: Record<string, JsonSchema> = {
+  termination: strict({ trigger: STRING, chunksReceived: NULLABLE_INTEGER }),
+  reassembled: {},
+  streamTiming: strict({
+    chunkCount: { type: "integer" },
+    timeToFirstChunkMs: NULLABLE_NUMBER,
+    timeToFirstTokenMs: NULLABLE_NUMBER,
+    chunkGapMs: strict(
+      {
+        min: { type: "number" },
+        max: { type: "number" },
+        p50: { type: "number" },
+        p95: { type: "number" },
+      },
+      ["object", "null"],
+    ),
+    producerMs: { type: "number" },
+    consumerMs: { type: "number" },
+  }),
+  redacted: { type: "array", items: STRING },
+  blobs: { type: "array", items: STRING },
+  capture: strict({
+    sampleRate: { type: "number" },
+    reason: { enum: ["sampled", "error"] },
+  }),
+  conversation: strict({
+    model: NULLABLE_STRING,
+    system: NULLABLE_STRING,
+    messages: {
+      type: "array",
+      items: strict({
+        role: { enum: ["user", "assistant", "tool"] },
+        content: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: {
+                enum: ["text", "image", "tool_call", "tool_result", "thinking"],
+              },
+            },
+            required: ["type"],
+          },
+        },
+      }),
+    },
+    parameters: strict({
+      temperature: NULLABLE_NUMBER,
+      topP: NULLABLE_NUMBER,
+      topK: NULLABLE_NUMBER,
+      maxTokens: NULLABLE_INTEGER,
+      stop: { type: ["array", "null"], items: STRING },
+      seed: NULLABLE_INTEGER,
+    }),
+  }),
+  http: strict({
+    method: STRING,
+    url: STRING,
+    status: NULLABLE_INTEGER,
+    headers: HEADERS,
+    attempt: NULLABLE_INTEGER,
+  }),
+  metadata: { type: "object" },
+};
+
+/**
+ * JSON Schemas of the record format by version. Version 1 is the format
+ * before versioning, as shuntly-py also writes it. The same schemas are
+ * published as `shuntly/schema/record.v<version>.json`.
+ */
+export const RECORD_SCHEMAS: Readonly<Record<number, JsonSchema>> = {
+  1: {
+    $schema: DRAFT,
+    title: "Shuntly record, version 1",
+    ...strict(V1_PROPERTIES),
+  },
+  2: {
+    $schema: DRAFT,
+    title: "Shuntly record, version 2",
+    type: "object",
+    properties: { ...V2_REQUIRED, ...V2_OPTIONAL },
+    required: Object.keys(V2_REQUIRED),
+  },
+};
+
+export interface ValidationResult {
+  valid: boolean;
+  /** Each failure as "<JSON pointer>: <problem>". */
+  errors: string[];
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonType;
+}
+
+function checkSchema(
+  value: unknown,
+  schema: JsonSchema,
+  pointer: string,
+  errors: string[],
+): void {
+  const at = pointer || "/";
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matched =
+      types.includes(actual) ||
+      (actual === "integer" && types.includes("number"));
+    if (!matched) {
+      errors.push(`${at}: expected ${types.join(" or ")}, got ${actual}`);
+      return;
+    }
+  }
+  if ("const" in schema && value !== schema.const) {
+    errors.push(`${at}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(
+      `${at}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    );
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) =>
+      checkSchema(item, schema.items!, `${pointer}/${i}`, errors),
+    );
+  }
+  if (typeOf(value) !== "object") {
+    return;
+  }
+  const object = value as AnyObject;
+  for (const key of schema.required ?? []) {
+    if (!(key in object)) {
+      errors.push(`${at}: missing ${key}`);
+    }
+  }
+  for (const [key, item] of Object.entries(object)) {
+    const child = schema.properties?.[key] ?? schema.additionalProperties;
+    if (child === false) {
+      errors.push(`${at}: unexpected ${key}`);
+    } else if (child !== undefined && child !== true) {
+      checkSchema(item, child, `${pointer}/${key}`, errors);
+    }
+  }
+}
+
+/**
+ * Check parsed JSON against the schema of its `schemaVersion` (version 1 if
+ * absent), e.g. before ingesting a log line.
+ */
+export function validateRecord(data: unknown): ValidationResult {
+  const version =
+    data !== null && typeof data === "object" && !Array.isArray(data)
+      ? ((data as AnyObject).schemaVersion ?? 1)
+      : 1;
+  const schema =
+    typeof version === "number" ? RECORD_SCHEMAS[version] : undefined;
+  if (!schema) {
+    return {
+      valid: false,
+      errors: [`/schemaVersion: unknown version ${JSON.stringify(version)}`],
+    };
+  }
+  const errors: string[] = [];
+  checkSchema(data, schema, "", errors);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Upgrade a version 1 record. Its `id` and trace ids are derived from its
+ * content, so that migrating the same line twice gives the same record;
+ * fields version 1 did not have are empty.
+ */
+function migrateV1(data: AnyObject): AnyObject {
+  const hash = createHash("sha256").update(JSON.stringify(data)).digest("hex");
+  const id = [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    hash.slice(12, 16),
+    hash.slice(16, 20),
+    hash.slice(20, 32),
+  ].join("-");
+  return {
+    schemaVersion: 2,
+    id,
+    timestamp: data.timestamp,
+    hostname: data.hostname,
+    user: data.user,
+    pid: data.pid,
+    traceId: hash.slice(32, 64),
+    spanId: hash.slice(0, 16),
+    parentSpanId: null,
+    parentSpanName: null,
+    client: data.client,
+    method: data.method,
+    request: data.request,
+    response: data.response,
+    durationMs: data.durationMs,
+    error: data.error ?? null,
+    errorDetail: null,
+    status: data.error ? "error" : "ok",
+    usage: null,
+    tools: [],
+    toolCalls: [],
+  };
+}
+
+const MIGRATIONS: Record<number, (data: AnyObject) => AnyObject> = {
+  1: migrateV1,
+};
+
+/**
+ * Upgrade a record read from disk to the current `SCHEMA_VERSION`, one
+ * version at a time. Throws for records of an unknown or newer version.
+ */
+export function migrateRecord(data: unknown): ShuntlyRecordData {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Not a Shuntly record");
+  }
+  let record = data as AnyObject;
+  let version: unknown = record.schemaVersion ?? 1;
+  while (version !== SCHEMA_VERSION) {
+    const migrate = typeof version === "number" && MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(
+        `Cannot migrate records of schema version ${JSON.stringify(version)}; this package writes version ${SCHEMA_VERSION}`,
+      );
+    }
+    record = migrate(record);
+    version = record.schemaVersion;
+  }
+  return record as unknown as ShuntlyRecordData;
+}
@@ -0,0 +1,214 @@
+import { describeBase64, describeBinary } from "./binary.js";
+import { isBlobRef } from "./blobs.js";
+
+type AnyObject = Record<string, unknown>;
+
+export interface SerializeOptions {
+  /** Nesting below which values are replaced with `"[MaxDepth]"`. Defaults to 64. */
+  maxDepth?: number;
+  /**
+   * Typed arrays, Buffers, and ArrayBuffers up to this size keep their bytes
+   * as `base64`; larger ones are only described. Defaults to 64 KiB.
+   */
+  maxBinaryBytes?: number;
+  /** Longer strings are cut, ending with `…[<n> more]`. Defaults to 1 MiB. */
+  maxStringLength?: number;
+  /**
+   * Keep base64 strings under known binary keys like `b64_json`, rather than
+   * describe them, e.g. for the blob store. Defaults to false.
+   */
+  keepBase64?: boolean;
+}
+
+export const DEFAULT_SERIALIZE_OPTIONS: Required<SerializeOptions> = {
+  maxDepth: 64,
+  maxBinaryBytes: 64 * 1024,
+  maxStringLength: 1024 * 1024,
+  keepBase64: false,
+};
+
+/**
+ * What a record keeps of an `Error` found in a request or response.
+ */
+export interface SerializedError {
+  type: "error";
+  name: string;
+  message: string;
+  stack?: string;
+  /** Other own properties, such as `status` or `cause`. */
+  [key: string]: unknown;
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function describeFunction(fn: { name: string }): string {
+  return fn.name ? `[Function: ${fn.name}]` : "[Function]";
+}
+
+function unserializable(err: unknown): string {
+  return `[Unserializable: ${err instanceof Error ? err.message : String(err)}]`;
+}
+
+class Serializer {
+  private readonly options: Required<SerializeOptions>;
+  /** Objects being serialized, to tell cycles from shared references. */
+  private readonly ancestors = new Set<object>();
+
+  constructor(options: SerializeOptions) {
+    this.options = { ...DEFAULT_SERIALIZE_OPTIONS, ...options };
+  }
+
+  value(value: unknown, depth: number): unknown {
+    switch (typeof value) {
+      case "string":
+        return this.string(value);
+      case "bigint":
+        return `${value}n`;
+      case "symbol":
+        return value.toString();
+      case "function":
+        return describeFunction(value);
+      case "object":
+        return value === null ? null : this.object(value, depth);
+      default:
+        return value;
+    }
+  }
+
+  private string(value: string): string {
+    const max = this.options.maxStringLength;
+    return value.length > max
+      ? `${value.slice(0, max)}…[${value.length - max} more]`
+      : value;
+  }
+
+  private object(value: object, depth: number): unknown {
+    if (this.ancestors.has(value)) {
+      return "[Circular]";
+    }
+    if (depth >= this.options.maxDepth) {
+      return "[MaxDepth]";
+    }
+    this.ancestors.add(value);
+    try {
+      return this.convert(value, depth + 1);
+    } catch (err) {
+      // A throwing getter or toJSON
+      return unserializable(err);
+    } finally {
+      this.ancestors.delete(value);
+    }
+  }
+
+  private convert(value: object, depth: number): unknown {
+    // Before toJSON, which Buffers have
+    const binary = describeBinary(value);
+    if (binary) {
+      const bytes = this.bytes(value);
+      return bytes && bytes.length <= this.options.maxBinaryBytes
+        ? { ...binary, base64: bytes.toString("base64") }
+        : binary;
+    }
+    if (value instanceof Error) {
+      return this.error(value, depth);
+    }
+    if (isBlobRef(value)) {
+      // Already stored; its hash must not be cut
+      return { ...value };
+    }
+    if (
+      "toJSON" in value &&
+      typeof (value as { toJSON: unknown }).toJSON === "function"
+    ) {
+      const json = (value as { toJSON: () => unknown }).toJSON();
+      // Dates give strings; SDK objects may give more objects
+      return json === value
+        ? this.entries(value, depth)
+        : this.value(json, depth);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.value(item, depth));
+    }
+    if (value instanceof Map) {
+      return {
+        type: "map",
+        entries: [...value].map(([key, item]) => [
+          this.value(key, depth),
+          this.value(item, depth),
+        ]),
+      };
+    }
+    if (value instanceof Set) {
+      return {
+        type: "set",
+        values: [...value].map((item) => this.value(item, depth)),
+      };
+    }
+    if (value instanceof RegExp) {
+      return String(value);
+    }
+    if (value instanceof Promise || value instanceof WeakMap) {
+      return `[${value.constructor.name}]`;
+    }
+    const keys = Object.keys(value);
+    if (keys.length === 0 && !isPlainObject(value)) {
+      // A client, signal, or other instance with nothing to show
+      return `[${value.constructor?.name ?? "Object"}]`;
+    }
+    return this.entries(value, depth);
+  }
+
+  private entries(value: object, depth: number): AnyObject {
+    const result: AnyObject = {};
+    for (const [key, item] of Object.entries(value)) {
+      const described = this.options.keepBase64
+        ? null
+        : describeBase64(key, item);
+      result[key] = described ?? this.value(item, depth);
+    }
+    return result;
+  }
+
+  private error(err: Error, depth: number): SerializedError {
+    const result: SerializedError = {
+      type: "error",
+      name: err.name,
+      message: err.message,
+      ...(err.stack !== undefined && { stack: err.stack }),
+    };
+    for (const [key, item] of Object.entries(err)) {
+      result[key] = this.value(item, depth);
+    }
+    if (err.cause !== undefined && !("cause" in result)) {
+      result.cause = this.value(err.cause, depth);
+    }
+    return result;
+  }
+
+  private bytes(value: object): Buffer | null {
+    if (ArrayBuffer.isView(value)) {
+      return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    }
+    if (value instanceof ArrayBuffer) {
+      return Buffer.from(value);
+    }
+    return null;
+  }
+}
+
+/**
+ * Convert any value into one `JSON.stringify` can write, without throwing.
+ * Cycles, functions, and instances with no properties become markers like
+ * `"[Circular]"`; BigInts become strings like `"12n"`; Maps, Sets, and
+ * Errors become objects typed `map`, `set`, and `error`; binary values
+ * become a `BinaryDescriptor`, with their bytes as `base64` when small.
+ */
+export function serializeValue(
+  value: unknown,
+  options: SerializeOptions = {},
+): unknown {
+  return new Serializer(options).value(value, 0);
+}
@@ -1,23 +1,39 @@
-import { ShuntlyRecord } from "./record.js";
-import { Sink, SinkStream } from "./sinks.js";
+import { AsyncLocalStorage } from "async_hooks";
+import { CallAdapter, CallObserver } from "./adapter.js";
+import { Capture, CapturePolicy } from "./capture.js";
+import { detectClient, hasQualified } from "./clients.js";
+import { toConversation } from "./conversation.js";
+import { ErrorDetail, describeError, toError } from "./errors.js";
+import { Middleware, MiddlewareChain } from "./middleware.js";
+import { createProxy, proxyTarget } from "./proxy.js";
+import {
+  RecordStatus,
+  ShuntlyRecord,
+  Termination,
+  serializeResponse,
+} from "./record.js";
+import { RedactOptions, Redaction } from "./redact.js";
+import { BlobOptions, Blobs } from "./blobs.js";
+import { SerializeOptions, serializeValue } from "./serialize.js";
+import { reassemble } from "./reducers.js";
+import {
+  Cassette,
+  ReplayMissError,
+  ReplayOptions,
+  cassetteSink,
+  replayFailure,
+  replayRecord,
+} from "./replay.js";
+import { Sink, defaultSink } from "./sinks.js";
+import { StreamClock, StreamTiming } from "./timing.js";
+import { extractToolCalls, extractToolDefinitions } from "./tools.js";
+import { Usage, extractStreamUsage, extractUsage } from "./usage.js";
+import { vercelAdapter } from "./vercel.js";
+import { childSpan, currentSpan, recordTrace, runInSpan } from "./trace.js";
 
 type AnyFunction = (...args: unknown[]) => unknown;
 type AnyObject = Record<string, unknown>;
 
-const METHOD_REGISTRY: Map<string, string[]> = new Map([
-  ["Anthropic", ["messages.create", "messages.stream"]],
-  ["OpenAI", ["chat.completions.create"]],
-  ["GoogleGenAI", ["models.generateContent", "models.generateContentStream"]],
-  ["Ollama", ["chat", "generate"]],
-]);
-
-/**
- * Get the constructor/class name of an object.
- */
-function getClientName(client: object): string {
-  return client.constructor.name;
-}
-
 /**
  * Resolve a dotted path like 'messages.create' on an object.
  * Returns [func, parent, attrName] for patching.
@@ -62,6 +78,50 @@ function isPromise(value: unknown): value is Promise<unknown> {
 /**
  * Check if a value is an async iterable (streaming response).
  */
+/**
+ * Run `observe` with the promise's own `then` once the caller asks for its
+ * value. SDK promise subclasses like OpenAI's APIPromise read and parse the
+ * response body only then; observing at once would read it before the
+ * caller could with `asResponse()`. Plain promises, which `await` resolves
+ * without calling an own `then`, are observed at once.
+ */
+function observeWhenAwaited(
+  promise: Promise<unknown>,
+  observe: (then: Promise<unknown>["then"]) => void,
+): void {
+  const then = promise.then;
+  if (Object.getPrototypeOf(promise) === Promise.prototype) {
+    observe(then.bind(promise));
+    return;
+  }
+  let observed = false;
+  const start = () => {
+    if (!observed) {
+      observed = true;
+      observe(then.bind(promise));
+    }
+  };
+  // Observers are attached first, so streams are wrapped before the
+  // caller's handlers see them
+  const override = (name: string, method: unknown) => {
+    if (typeof method === "function") {
+      Object.defineProperty(promise, name, {
+        configurable: true,
+        writable: true,
+        value(this: unknown, ...args: unknown[]) {
+          start();
+          return method.apply(this, args);
+        },
+      });
+    }
+  };
+  override("then", then);
+  override(
+    "withResponse",
+    (promise as { withResponse?: unknown }).withResponse,
+  );
+}
+
 function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
   return (
     value !== null && typeof value === "object" && Symbol.asyncIterator in value
@@ -79,8 +139,9 @@ function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
  */
 function wrapAsyncIterable(
   iterable: AsyncIterable<unknown>,
-  onComplete: (chunks: unknown[]) => void,
-  onError: (error: Error) => void,
+  onComplete: (chunks: unknown[], clock: StreamClock) => void,
+  onError: (error: Error, chunks: unknown[], clock: StreamClock) => void,
+  onReturn: (chunks: unknown[], clock: StreamClock) => void,
 ): AsyncIterable<unknown> {
   // bind extracted method to retain `this`
   const originalMethod = iterable[Symbol.asyncIterator].bind(iterable);
@@ -99,29 +160,46 @@ function wrapAsyncIterable(
 
     const iter = originalMethod();
     const chunks: unknown[] = [];
+    const clock = new StreamClock();
+    // Record once, whichever of done, error, or return comes first
+    let ended = false;
 
     return {
       async next(): Promise<IteratorResult<unknown>> {
         try {
+          clock.beforeNext();
           const result = await iter.next();
+          clock.afterNext(Boolean(result.done));
           if (result.done) {
-            onComplete(chunks);
+            if (!ended) {
+              ended = true;
+              onComplete(chunks, clock);
+            }
           } else {
             chunks.push(result.value);
           }
           return result;
         } catch (error) {
-          onError(error as Error);
+          if (!ended) {
+            ended = true;
+            onError(toError(error), chunks, clock);
+          }
           throw error;
         }
       },
-      // if iteration stops early
+      // if iteration stops early, e.g. on `break`
       async return(value?: unknown): Promise<IteratorResult<unknown>> {
-        onComplete(chunks);
+        if (!ended) {
+          ended = true;
+          onReturn(chunks, clock);
+        }
         return iter.return ? iter.return(value) : { value, done: true };
       },
       async throw(error?: unknown): Promise<IteratorResult<unknown>> {
-        onError(error instanceof Error ? error : new Error(String(error)));
+        if (!ended) {
+          ended = true;
+          onError(toError(error), chunks, clock);
+        }
         if (iter.throw) return iter.throw(error);
         throw error;
       },
@@ -131,83 +209,697 @@ function wrapAsyncIterable(
   return iterable;
 }
 
+/**
+ * An SDK stream helper that emits events, like Anthropic's `MessageStream`
+ * or OpenAI's `ChatCompletionStream`.
+ */
+interface EventStream {
+  on: (event: string, listener: AnyFunction) => unknown;
+  _emit: (event: string, ...args: unknown[]) => unknown;
+}
+
+/**
+ * Events carrying raw chunks: `streamEvent` from Anthropic's `MessageStream`,
+ * `chunk` from OpenAI's `ChatCompletionStream`, `event` from its
+ * `ResponseStream`.
+ */
+const CHUNK_EVENTS = new Set(["streamEvent", "chunk", "event"]);
+
+/**
+ * Check if a value is an event-emitting stream helper.
+ */
+function isEventStream(value: unknown): value is EventStream {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as AnyObject).on === "function" &&
+    typeof (value as AnyObject)._emit === "function" &&
+    typeof (value as AnyObject).done === "function"
+  );
+}
+
+/**
+ * Record an event stream however it is consumed: `for await`, `on("text")`,
+ * `finalMessage()`, or not at all.
+ *
+ * Helpers like these can be consumed without iteration, so this observes
+ * `_emit`, through which every event passes, and records once at `end`,
+ * which follows `error` and `abort`. Adding our own `error` listener instead
+ * would suppress the unhandled rejection the SDK raises when nobody handles
+ * a stream error.
+ */
+function wrapEventStream(
+  stream: EventStream,
+  onComplete: (chunks: unknown[], clock: StreamClock) => void,
+  onError: (error: Error, chunks: unknown[], clock: StreamClock) => void,
+  onCopyError: (error: unknown) => void,
+): EventStream {
+  const emit = stream._emit;
+  const chunks: unknown[] = [];
+  const clock = new StreamClock();
+  let failed = false;
+  let error: unknown = null;
+  let ended = false;
+
+  stream._emit = function (event: string, ...args: unknown[]): unknown {
+    if (!ended) {
+      if (CHUNK_EVENTS.has(event)) {
+        clock.arrive();
+        // The SDK builds its snapshot out of the event objects and mutates
+        // them as later deltas arrive, so keep a copy as received. A failure
+        // here would throw into the SDK's stream, so fall back to the
+        // serializer, which never throws.
+        try {
+          chunks.push(structuredClone(args[0]));
+        } catch (err) {
+          onCopyError(err);
+          chunks.push(serializeValue(args[0]));
+        }
+      } else if (event === "error" || event === "abort") {
+        failed = true;
+        error = args[0];
+      }
+    }
+    const result = emit.call(this, event, ...args);
+    if (event === "end" && !ended) {
+      ended = true;
+      if (failed) {
+        onError(toError(error), chunks, clock);
+      } else {
+        onComplete(chunks, clock);
+      }
+    }
+    return result;
+  };
+
+  return stream;
+}
+
+/**
+ * The client whose shunted method is running. SDK helpers like Anthropic's
+ * `messages.stream` or OpenAI's `chat.completions.parse` make one call to
+ * another method of the same client (`create`); that inner call passes
+ * through unrecorded, as the helper's record covers it. Later calls in the
+ * same context, as from the helper's event listeners, are the caller's own
+ * and are recorded.
+ */
+interface Delegation {
+  owner: object;
+  pending: boolean;
+}
+
+const DELEGATION = new AsyncLocalStorage<Delegation>();
+
+/**
+ * Whether a call is a helper's inner call, consuming the delegation if so.
+ */
+function isDelegated(owner: object | null): boolean {
+  const delegation = DELEGATION.getStore();
+  if (owner === null || delegation?.owner !== owner || !delegation.pending) {
+    return false;
+  }
+  delegation.pending = false;
+  return true;
+}
+
+export interface ShuntOptions {
+  /** Method paths to patch; defaults to the registered methods of the client. */
+  methods?: string[];
+  /** Redact secrets and PII from requests and responses before writing. */
+  redact?: RedactOptions;
+  /**
+   * Move base64 images, documents, and audio, and other large strings, into
+   * a content-addressed directory, leaving a reference in the record.
+   */
+  blobs?: BlobOptions;
+  /**
+   * Collapse stream chunks into the equivalent non-streaming response,
+   * stored in `reassembled`. Defaults to true.
+   */
+  reassemble?: boolean;
+  /**
+   * Raw stream chunks to keep in `response`: all ("keep", the default),
+   * none ("drop"), or at most the given number.
+   */
+  chunks?: ChunkPolicy;
+  /** Which calls to capture: sampling, errors, latency, methods, predicate. */
+  capture?: CapturePolicy;
+  /**
+   * Serve calls from a Shuntly log instead of (or before) calling the SDK.
+   * When recording without a sink, records are written to `source`.
+   */
+  replay?: ReplayOptions;
+  /**
+   * Return a Proxy over the client instead of patching it in place. The
+   * client stays untouched; resources the SDK creates lazily, and clones
+   * from methods like `withOptions()`, are recorded through the proxy.
+   */
+  proxy?: boolean;
+  /**
+   * Hooks run on each call and record, in order: observe requests, rewrite
+   * or drop records before they are written, and react after.
+   */
+  middleware?: Middleware[];
+  /**
+   * Attach a provider-agnostic `conversation` view to each record: system
+   * prompt, messages with typed content parts, model, and sampling
+   * parameters. Defaults to false.
+   */
+  conversation?: boolean;
+  /**
+   * Called when the sink fails to write a record. Sink failures never fail
+   * the call; by default each is reported as a process warning.
+   */
+  onSinkError?: (error: unknown, record: ShuntlyRecord | null) => void;
+  /**
+   * Record a standalone function as an AI SDK call even when its `model` is
+   * a gateway string like `"openai/gpt-4o"`. Calls with a `LanguageModel`
+   * object are recognized without it. Defaults to false.
+   */
+  vercel?: boolean;
+  /**
+   * Limits on what records keep of requests and responses: nesting depth,
+   * binary bytes, and string length; see `SerializeOptions`.
+   */
+  serialize?: SerializeOptions;
+}
+
+export type ChunkPolicy = "keep" | "drop" | number;
+
+/**
+ * How a wrapped call derives its client name, method, and request.
+ */
+export interface CallSite {
+  /** The shunted client, or null for standalone functions. */
+  owner: object | null;
+  client: (args: unknown[]) => string;
+  method: string;
+  request: (args: unknown[]) => AnyObject;
+  /** Record calls to SDKs like the Vercel AI SDK on their own terms. */
+  adapt?: (args: unknown[]) => CallAdapter | null;
+  /** Calls to pass through unrecorded, e.g. fetches to hosts not matched. */
+  ignore?: (args: unknown[]) => boolean;
+}
+
+/**
+ * Everything shared by the wrappers created in a single `shunt()` call.
+ */
+export interface Pipeline {
+  sink: Sink;
+  redaction: Redaction | null;
+  blobs: Blobs | null;
+  reassemble: boolean;
+  chunks: ChunkPolicy;
+  capture: Capture | null;
+  cassette: Cassette | null;
+  middleware: MiddlewareChain | null;
+  conversation: boolean;
+  serialize: SerializeOptions;
+  onSinkError: ((error: unknown, record: ShuntlyRecord | null) => void) | null;
+}
+
+/**
+ * Report a failure to store a record to `onSinkError`, or as a warning.
+ * `record` is null when the failure came before the record was built.
+ */
+function reportSinkError(
+  pipeline: Pipeline,
+  error: unknown,
+  record: ShuntlyRecord | null,
+): void {
+  try {
+    if (pipeline.onSinkError) {
+      pipeline.onSinkError(error, record);
+    } else {
+      process.emitWarning(
+        `Shuntly sink failed to write a record: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  } catch {
+    // A failing error handler must not fail the call either
+  }
+}
+
+/**
+ * Apply the capture predicate. A predicate that throws keeps the record, and
+ * its error is reported like a sink's.
+ */
+function acceptsRecord(
+  pipeline: Pipeline,
+  capture: Capture,
+  record: ShuntlyRecord,
+): boolean {
+  try {
+    return capture.accepts(record);
+  } catch (err) {
+    reportSinkError(pipeline, err, record);
+    return true;
+  }
+}
+
+/**
+ * Write a record to the pipeline's sink, reporting a failure rather than
+ * throwing it into the call that was recorded.
+ */
+function writeRecord(pipeline: Pipeline, record: ShuntlyRecord): void {
+  try {
+    pipeline.sink.write(record);
+  } catch (err) {
+    reportSinkError(pipeline, err, record);
+  }
+}
+
+/**
+ * Apply a chunk policy to the raw chunks of a stream.
+ */
+function limitChunks(chunks: unknown[], policy: ChunkPolicy): unknown[] | null {
+  if (policy === "drop") {
+    return null;
+  }
+  if (typeof policy === "number") {
+    return chunks.slice(0, Math.max(0, policy));
+  }
+  return chunks;
+}
+
+/**
+ * Format an error for the record's `error` field.
+ */
+function formatError(err: Error): string {
+  return `${err.name}: ${err.message}`;
+}
+
+/**
+ * The status of a failed call: cancellations and timeouts are told apart
+ * from other errors.
+ */
+function failureStatus(detail: ErrorDetail): RecordStatus {
+  return detail.category === "aborted" || detail.category === "timeout"
+    ? detail.category
+    : "error";
+}
+
+/**
+ * State attached to each wrapper. Re-shunting swaps the pipeline; unshunting
+ * clears it so that retained references to the wrapper stop recording.
+ */
+interface WrapperState {
+  original: AnyFunction;
+  pipeline: Pipeline | null;
+}
+
+const SHUNTED = Symbol("shuntly.shunted");
+
+/**
+ * Get the state of a function created by `createWrapper`, if it is one.
+ */
+export function wrapperState(value: unknown): WrapperState | undefined {
+  return typeof value === "function"
+    ? (value as { [SHUNTED]?: WrapperState })[SHUNTED]
+    : undefined;
+}
+
+/**
+ * A method replaced on a client, for restoring with `unshunt()`.
+ */
+interface Patch {
+  parent: AnyObject;
+  attr: string;
+  original: AnyFunction;
+  wrapper: AnyFunction;
+  own: boolean;
+}
+
+const PATCHES: WeakMap<object, Patch[]> = new WeakMap();
+
+/**
+ * The wrappers created through a proxy, for disabling with `unshunt()`.
+ */
+interface ProxyShunt {
+  wrappers: AnyFunction[];
+  active: boolean;
+}
+
+const PROXIES: WeakMap<object, ProxyShunt> = new WeakMap();
+
 /**
  * Create a wrapper function that records calls to sink.
  */
-function createWrapper(
+export function createWrapper(
   func: AnyFunction,
-  clientName: string,
-  method: string,
-  sink: Sink,
+  site: CallSite,
+  pipeline: Pipeline,
 ): AnyFunction {
-  return function (this: unknown, ...args: unknown[]): unknown {
-    const startTime = performance.now();
-    let error: string | null = null;
-
-    // Build request from args
-    // Most SDK methods take a single options object
-    const request: AnyObject =
-      args.length === 1 && typeof args[0] === "object" && args[0] !== null
-        ? (args[0] as AnyObject)
-        : { args };
-
-    const recordAndWrite = (response: unknown, err: string | null) => {
-      const durationMs = performance.now() - startTime;
-      const record = ShuntlyRecord.build({
-        client: clientName,
+  const state: WrapperState = { original: func, pipeline };
+  const wrapper = function (this: unknown, ...args: unknown[]): unknown {
+    const pipeline = state.pipeline;
+    if (pipeline === null) {
+      return func.apply(this, args);
+    }
+    if (isDelegated(site.owner)) {
+      return func.apply(this, args);
+    }
+    if (site.ignore?.(args)) {
+      return func.apply(this, args);
+    }
+    const adapter = site.adapt?.(args) ?? null;
+    const clientName = adapter ? adapter.client : site.client(args);
+    const method = adapter?.method ?? site.method;
+    const request = adapter ? adapter.request : site.request(args);
+
+    const cassette = pipeline.cassette;
+    if (cassette && cassette.mode !== "record") {
+      // Recorded requests were redacted; match live ones as they would be
+      const recorded = cassette.lookup(
+        clientName,
         method,
-        request,
-        response,
-        durationMs,
-        error: err,
+        pipeline.redaction
+          ? pipeline.redaction.apply({ request }).fields.request
+          : request,
+      );
+      if (recorded) {
+        return replayRecord(recorded);
+      }
+      if (cassette.mode === "replay") {
+        return replayFailure(new ReplayMissError(clientName, method));
+      }
+    }
+
+    const capture = pipeline.capture;
+    if (capture && !capture.allows(clientName, method)) {
+      return func.apply(this, args);
+    }
+    pipeline.middleware?.request({
+      client: clientName,
+      method,
+      request,
+    });
+    const sampled = capture ? capture.sample() : true;
+    const startTime = performance.now();
+    const parentSpan = currentSpan();
+    const callSpan = childSpan(parentSpan, `${clientName}.${method}`);
+
+    // Recording runs in the caller's call, or in callbacks on its promise
+    // or stream; a failure to record is reported, never thrown there
+    const reportFailure = (err: unknown) =>
+      reportSinkError(pipeline, err, null);
+    const contain = (record: () => void) => {
+      try {
+        record();
+      } catch (err) {
+        reportFailure(err);
+      }
+    };
+
+    // `reason` is what the call threw or rejected with, when `failed`; it
+    // may be any value, even `undefined`
+    const recordAndWrite = (
+      response: unknown,
+      failed: boolean,
+      reason: unknown,
+      extra: {
+        reassembled?: unknown;
+        streamTiming?: StreamTiming;
+        usage?: Usage | null;
+        /** The response, or the reassembled stream. */
+        final?: unknown;
+        /** The caller stopped consuming the stream before it finished. */
+        earlyReturn?: boolean;
+        /** Chunks received, for streams. */
+        chunksReceived?: number;
+      } = {},
+    ) =>
+      contain(() => {
+        const { reassembled, streamTiming } = extra;
+        const durationMs = performance.now() - startTime;
+        const decision = capture?.decide(sampled, failed, durationMs);
+        if (decision === null) {
+          return;
+        }
+        const err = failed ? toError(reason) : null;
+        const errorDetail = err && describeError(err);
+        const status: RecordStatus = errorDetail
+          ? failureStatus(errorDetail)
+          : extra.earlyReturn
+            ? "early_return"
+            : "ok";
+        const termination: Termination | undefined =
+          status === "ok"
+            ? undefined
+            : {
+                trigger: errorDetail ? errorDetail.name : "return",
+                chunksReceived: extra.chunksReceived ?? null,
+              };
+        const tools = extractToolDefinitions(request);
+        const toolCalls = extractToolCalls(extra.final);
+        const conversation = pipeline.conversation
+          ? toConversation(request, extra.final)
+          : undefined;
+        let fields = {
+          request,
+          response,
+          reassembled,
+          error: err && formatError(err),
+          errorDetail,
+          tools,
+          toolCalls,
+          conversation,
+        };
+        let redacted: string[] | undefined;
+        if (pipeline.redaction) {
+          ({ fields, redacted } = pipeline.redaction.apply({
+            ...fields,
+            // Strings are cut once, when the record is written; the blob
+            // store takes base64 payloads the serializer would drop
+            response: serializeValue(response, {
+              ...pipeline.serialize,
+              keepBase64: pipeline.blobs !== null,
+              maxStringLength: Infinity,
+            }),
+          }));
+        }
+        let blobs: string[] | undefined;
+        let blobError: unknown = null;
+        if (pipeline.blobs) {
+          // The record is still written, with its payloads, if the store fails
+          try {
+            ({ fields, blobs } = pipeline.blobs.apply(
+              fields,
+              pipeline.serialize,
+            ));
+          } catch (err) {
+            blobError = err;
+          }
+        }
+        const record = ShuntlyRecord.build({
+          client: clientName,
+          method,
+          ...fields,
+          durationMs,
+          status,
+          termination,
+          usage: extra.usage ?? null,
+          streamTiming,
+          redacted,
+          blobs: blobs?.length ? blobs : undefined,
+          trace: recordTrace(callSpan, parentSpan),
+          capture: decision,
+          http: adapter?.http?.(),
+          serialize: pipeline.serialize,
+        });
+        if (capture && !acceptsRecord(pipeline, capture, record)) {
+          return;
+        }
+        if (blobError !== null) {
+          reportSinkError(pipeline, blobError, record);
+        }
+        if (pipeline.middleware) {
+          pipeline.middleware.write(record, (final) =>
+            writeRecord(pipeline, final),
+          );
+        } else {
+          writeRecord(pipeline, record);
+        }
       });
-      sink.write(record);
+
+    const recordStream = (
+      chunks: unknown[],
+      clock: StreamClock,
+      ending: { finished?: unknown; earlyReturn?: boolean } = {},
+    ) =>
+      contain(() => {
+        const serialized = serializeResponse(
+          chunks,
+          pipeline.serialize,
+        ) as unknown[];
+        const reassembled =
+          ending.finished ?? reassemble(clientName, serialized);
+        recordAndWrite(limitChunks(chunks, pipeline.chunks), false, null, {
+          reassembled: pipeline.reassemble ? reassembled : undefined,
+          streamTiming: clock.summarize(startTime, chunks),
+          usage: extractStreamUsage(reassembled, serialized),
+          final: reassembled,
+          earlyReturn: ending.earlyReturn,
+          chunksReceived: chunks.length,
+        });
+      });
+
+    const recordReturn = (chunks: unknown[], clock: StreamClock) => {
+      recordStream(chunks, clock, { earlyReturn: true });
     };
 
-    try {
-      const result = func.apply(this, args);
-
-      // Handle async (Promise) responses
-      if (isPromise(result)) {
-        return result.then(
-          (resolved) => {
-            // Check if the resolved value is an async iterable (streaming)
-            if (isAsyncIterable(resolved)) {
-              return wrapAsyncIterable(
-                resolved,
-                (chunks) => recordAndWrite(chunks, null),
-                (err) => recordAndWrite(null, `${err.name}: ${err.message}`),
-              );
-            }
-            recordAndWrite(resolved, null);
-            return resolved;
-          },
-          (err: Error) => {
-            error = `${err.name}: ${err.message}`;
-            recordAndWrite(null, error);
-            throw err;
-          },
-        );
-      }
+    const recordResponse = (response: unknown) =>
+      contain(() =>
+        recordAndWrite(response, false, null, {
+          usage: extractUsage(response),
+          final: response,
+        }),
+      );
 
-      // Handle sync async iterable (unlikely but possible)
-      if (isAsyncIterable(result)) {
-        return wrapAsyncIterable(
-          result,
-          (chunks) => recordAndWrite(chunks, null),
-          (err) => recordAndWrite(null, `${err.name}: ${err.message}`),
-        );
+    const recordStreamError = (
+      err: Error,
+      chunks: unknown[],
+      clock: StreamClock,
+    ) =>
+      contain(() =>
+        recordAndWrite(null, true, err, {
+          streamTiming: clock.summarize(startTime, chunks),
+          chunksReceived: chunks.length,
+        }),
+      );
+
+    // Adapted calls report through an observer; the first outcome counts
+    let settled = false;
+    const chunks: unknown[] = [];
+    const clock = new StreamClock();
+    const settle = (record: () => void) => {
+      if (!settled) {
+        settled = true;
+        record();
       }
+    };
+    const observer: CallObserver = {
+      chunk: (chunk) => {
+        if (!settled) {
+          clock.arrive();
+          chunks.push(chunk);
+        }
+      },
+      finish: (reassembled) =>
+        settle(() => recordStream(chunks, clock, { finished: reassembled })),
+      response: (response) => settle(() => recordResponse(response)),
+      error: (err) =>
+        settle(() =>
+          chunks.length > 0
+            ? recordStreamError(err, chunks, clock)
+            : recordAndWrite(null, true, err),
+        ),
+    };
+    const callArgs = adapter ? adapter.args(observer) : args;
 
-      // Sync response
-      recordAndWrite(result, null);
-      return result;
+    let result: unknown;
+    try {
+      // Run the call in its own span so calls made within it link to it
+      result = runInSpan(callSpan, () =>
+        site.owner
+          ? DELEGATION.run({ owner: site.owner, pending: true }, () =>
+              func.apply(this, callArgs),
+            )
+          : func.apply(this, callArgs),
+      );
     } catch (err) {
-      error = `${(err as Error).name}: ${(err as Error).message}`;
-      recordAndWrite(null, error);
+      recordAndWrite(null, true, err);
       throw err;
     }
+
+    if (adapter) {
+      return adapter.result(result, observer);
+    }
+
+    // Handle async (Promise) responses. Observe the promise rather than
+    // chain onto it: SDK promise subclasses carry helpers like
+    // `withResponse()` and `_thenUnwrap()` that callers rely on. Streams
+    // are wrapped in place, before the caller's handlers run.
+    if (isPromise(result)) {
+      observeWhenAwaited(result, (then) =>
+        then(
+          (resolved) =>
+            contain(() => {
+              if (isEventStream(resolved)) {
+                wrapEventStream(
+                  resolved,
+                  recordStream,
+                  recordStreamError,
+                  reportFailure,
+                );
+              } else if (isAsyncIterable(resolved)) {
+                wrapAsyncIterable(
+                  resolved,
+                  recordStream,
+                  recordStreamError,
+                  recordReturn,
+                );
+              } else {
+                recordResponse(resolved);
+              }
+            }),
+          (err: unknown) => {
+            recordAndWrite(null, true, err);
+          },
+        ),
+      );
+      return result;
+    }
+
+    // Handle sync event streams (e.g. Anthropic's messages.stream)
+    if (isEventStream(result)) {
+      return wrapEventStream(
+        result,
+        recordStream,
+        recordStreamError,
+        reportFailure,
+      );
+    }
+
+    // Handle sync async iterable (e.g. pi-ai's stream)
+    if (isAsyncIterable(result)) {
+      return wrapAsyncIterable(
+        result,
+        recordStream,
+        recordStreamError,
+        recordReturn,
+      );
+    }
+
+    // Sync response
+    recordResponse(result);
+    return result;
   };
+  Object.defineProperty(wrapper, SHUNTED, { value: state });
+  return wrapper;
+}
+
+/**
+ * Most SDK methods take a single options object; anything else is recorded
+ * as the positional args.
+ */
+function clientRequest(args: unknown[]): AnyObject {
+  return args.length === 1 && typeof args[0] === "object" && args[0] !== null
+    ? (args[0] as AnyObject)
+    : { args };
+}
+
+/**
+ * Standalone functions like pi-ai's take (model, context, ...); record the
+ * context if it is an object, else fall back to the positional args.
+ */
+function standaloneRequest(args: unknown[]): AnyObject {
+  return args.length >= 2 &&
+    args[1] !== null &&
+    typeof args[1] === "object" &&
+    !Array.isArray(args[1])
+    ? (args[1] as AnyObject)
+    : { args };
 }
 
 /**
@@ -230,127 +922,281 @@ function deriveClientName(firstArg: unknown): string {
 }
 
 /**
- * Wrap an LLM client to record all API calls.
+ * Whether `SHUNTLY_DISABLED` turns shunting off, so that capture can be
+ * disabled in a deployed service without a code change.
+ */
+export function shuntlyDisabled(): boolean {
+  const value = process.env.SHUNTLY_DISABLED?.trim().toLowerCase();
+  return (
+    value !== undefined && !["", "0", "false", "no", "off"].includes(value)
+  );
+}
+
+/**
+ * Build the pipeline shared by the wrappers of one `shunt()` call.
+ */
+export function createPipeline(
+  sink: Sink | null | undefined,
+  options: ShuntOptions,
+): Pipeline {
+  const replay = options.replay;
+  return {
+    sink:
+      sink ??
+      (replay && replay.mode !== "replay"
+        ? cassetteSink(replay)
+        : defaultSink()),
+    redaction: options.redact ? new Redaction(options.redact) : null,
+    blobs: options.blobs ? new Blobs(options.blobs) : null,
+    reassemble: options.reassemble ?? true,
+    chunks: options.chunks ?? "keep",
+    capture: options.capture ? new Capture(options.capture) : null,
+    cassette: replay ? new Cassette(replay, options.serialize) : null,
+    middleware: options.middleware?.length
+      ? new MiddlewareChain(options.middleware)
+      : null,
+    conversation: options.conversation ?? false,
+    serialize: options.serialize ?? {},
+    onSinkError: options.onSinkError ?? null,
+  };
+}
+
+/**
+ * Normalize the third `shunt()` argument, which may be a method list or options.
+ */
+function resolveOptions(
+  methodsOrOptions?: string[] | ShuntOptions,
+): ShuntOptions {
+  if (Array.isArray(methodsOrOptions)) {
+    return { methods: methodsOrOptions };
+  }
+  return methodsOrOptions ?? {};
+}
+
+/**
+ * Wrap an LLM client to record all API calls. Without a sink, records go to
+ * the sink given by the `SHUNTLY_SINK` spec, or else to stderr; with
+ * `SHUNTLY_DISABLED` set, the client is returned untouched.
  */
 export function shunt<T extends object>(
   client: T,
   sink?: Sink | null,
-  methods?: string[],
+  methods?: string[] | ShuntOptions,
 ): T;
 
 /**
- * Wrap a standalone function (e.g. pi-ai's `complete` or `stream`) to record calls.
+ * Wrap a standalone function (e.g. pi-ai's `complete` or `stream`, or the AI
+ * SDK's `generateText` or `streamText`) to record calls.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function shunt<F extends (...args: any[]) => any>(
   fn: F,
   sink?: Sink | null,
+  options?: ShuntOptions,
 ): F;
 
 export function shunt(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   clientOrFn: object | ((...args: any[]) => any),
   sink?: Sink | null,
-  methods?: string[],
+  methodsOrOptions?: string[] | ShuntOptions,
 ): unknown {
-  const actualSink = sink ?? new SinkStream();
+  if (shuntlyDisabled()) {
+    return clientOrFn;
+  }
+  const options = resolveOptions(methodsOrOptions);
+  const pipeline = createPipeline(sink, options);
+  let methods = options.methods;
 
   // Standalone function overload, as with pi-ai
   if (typeof clientOrFn === "function" && methods === undefined) {
-    const fn = clientOrFn as (...args: unknown[]) => unknown;
+    // Already shunted: re-target to the new pipeline rather than wrap twice
+    const existing = wrapperState(clientOrFn);
+    if (existing) {
+      existing.pipeline = pipeline;
+      return clientOrFn;
+    }
+    const fn = clientOrFn as AnyFunction;
     const methodName = fn.name || "anonymous";
-
-    const wrapper = function (this: unknown, ...args: unknown[]): unknown {
-      const startTime = performance.now();
-      const clientName = deriveClientName(args[0]);
-
-      // Capture request: if 2+ args and args[1] is an object, use it; else fall back
-      // if pi-ai, args are model, context
-      const request: AnyObject =
-        args.length >= 2 &&
-        args[1] !== null &&
-        typeof args[1] === "object" &&
-        !Array.isArray(args[1])
-          ? (args[1] as AnyObject)
-          : { args };
-
-      const recordAndWrite = (response: unknown, err: string | null) => {
-        const durationMs = performance.now() - startTime;
-        const record = ShuntlyRecord.build({
-          client: clientName,
-          method: methodName,
-          request,
-          response,
-          durationMs,
-          error: err,
-        });
-        actualSink.write(record);
-      };
-
-      try {
-        const result = fn.apply(this, args);
-
-        if (isPromise(result)) {
-          return result.then(
-            (resolved) => {
-              if (isAsyncIterable(resolved)) {
-                return wrapAsyncIterable(
-                  resolved,
-                  (chunks) => recordAndWrite(chunks, null),
-                  (err) => recordAndWrite(null, `${err.name}: ${err.message}`),
-                );
-              }
-              recordAndWrite(resolved, null);
-              return resolved;
-            },
-            (err: Error) => {
-              recordAndWrite(null, `${err.name}: ${err.message}`);
-              throw err;
-            },
-          );
-        }
-
-        if (isAsyncIterable(result)) {
-          return wrapAsyncIterable(
-            result,
-            (chunks) => recordAndWrite(chunks, null),
-            (err) => recordAndWrite(null, `${err.name}: ${err.message}`),
-          );
-        }
-
-        recordAndWrite(result, null);
-        return result;
-      } catch (err) {
-        recordAndWrite(
-          null,
-          `${(err as Error).name}: ${(err as Error).message}`,
-        );
-        throw err;
-      }
-    };
+    const wrapper = createWrapper(
+      fn,
+      {
+        owner: null,
+        client: (args) => deriveClientName(args[0]),
+        method: methodName,
+        request: standaloneRequest,
+        adapt: (args) => vercelAdapter(args, options.vercel ?? false),
+      },
+      pipeline,
+    );
 
     // Preserve function name for debugging
     Object.defineProperty(wrapper, "name", { value: methodName });
-    return wrapper as typeof fn;
+    return wrapper;
   }
 
   // Object/client wrapper
   const client = clientOrFn as object;
-  const clientName = getClientName(client);
+  const registration = detectClient(client);
+  const clientName =
+    registration?.name ?? client.constructor?.name ?? "Unknown";
+  const registered = !methods;
   if (!methods) {
-    methods = METHOD_REGISTRY.get(clientName);
+    methods = registration?.methods;
     if (!methods) {
       throw new Error(
-        `Unknown client "${clientName}". Pass methods option to specify which methods to patch.`,
+        `Unknown client "${clientName}". Pass methods option to specify which methods to patch, or register it with registerClient().`,
       );
     }
   }
 
+  if (options.proxy) {
+    const shunted: ProxyShunt = { wrappers: [], active: true };
+    const proxy = createProxy(client, methods, (func, parent, method, root) => {
+      const bound = function (...args: unknown[]): unknown {
+        return func.apply(parent, args);
+      };
+      // Methods shunted in place already record
+      if (!shunted.active || wrapperState(func)) {
+        return bound;
+      }
+      const wrapper = createWrapper(
+        bound,
+        {
+          owner: root,
+          client: () => clientName,
+          method,
+          request: clientRequest,
+        },
+        pipeline,
+      );
+      shunted.wrappers.push(wrapper);
+      return wrapper;
+    });
+    PROXIES.set(proxy, shunted);
+    return proxy;
+  }
+
+  const patches = PATCHES.get(client) ?? [];
   for (const method of methods) {
+    // Registered methods may be missing from older SDK versions
+    if (registered && !hasQualified(client, method)) {
+      continue;
+    }
     const [func, parent, attr] = resolveQualified(client, method);
-    const wrapper = createWrapper(func, clientName, method, actualSink);
+    const existing = wrapperState(func);
+    if (existing) {
+      existing.pipeline = pipeline;
+      continue;
+    }
+    const wrapper = createWrapper(
+      func,
+      {
+        owner: client,
+        client: () => clientName,
+        method,
+        request: clientRequest,
+      },
+      pipeline,
+    );
+    patches.push({
+      parent: parent as AnyObject,
+      attr,
+      original: func,
+      wrapper,
+      own: Object.prototype.hasOwnProperty.call(parent, attr),
+    });
     (parent as AnyObject)[attr] = wrapper;
   }
+  PATCHES.set(client, patches);
 
   return client;
 }
+
+/**
+ * Undo `shunt()`. For a client, restores the original methods in place and
+ * returns the client; for a proxy, returns the client behind it; for a
+ * wrapped function, returns the original function. Either way, existing
+ * references to the wrappers stop recording.
+ */
+export function unshunt<T extends object>(target: T): T {
+  const state = wrapperState(target);
+  if (state) {
+    state.pipeline = null;
+    return state.original as T;
+  }
+  const real = proxyTarget(target);
+  if (real) {
+    const shunted = PROXIES.get(target);
+    if (shunted) {
+      shunted.active = false;
+      for (const wrapper of shunted.wrappers) {
+        wrapperState(wrapper)!.pipeline = null;
+      }
+      PROXIES.delete(target);
+    }
+    return real as T;
+  }
+  const patches = PATCHES.get(target);
+  if (patches) {
+    for (const patch of patches.reverse()) {
+      wrapperState(patch.wrapper)!.pipeline = null;
+      // Leave methods that were replaced again after shunting
+      if (patch.parent[patch.attr] !== patch.wrapper) {
+        continue;
+      }
+      if (patch.own) {
+        patch.parent[patch.attr] = patch.original;
+      } else {
+        delete patch.parent[patch.attr];
+      }
+    }
+    PATCHES.delete(target);
+  }
+  return target;
+}
+
+/**
+ * A shunted client or function that is unshunted when disposed.
+ */
+export interface ShuntHandle<T> {
+  readonly target: T;
+  unshunt(): T;
+  [Symbol.dispose](): void;
+}
+
+// Symbol.dispose is not defined on older Node versions
+const DISPOSE: typeof Symbol.dispose =
+  Symbol.dispose ?? Symbol.for("nodejs.dispose");
+
+/**
+ * Like `shunt()`, but returns a handle for use with `using` (or an explicit
+ * `unshunt()`) to restore the target when done.
+ */
+export function shuntScoped<T extends object>(
+  client: T,
+  sink?: Sink | null,
+  methods?: string[] | ShuntOptions,
+): ShuntHandle<T>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function shuntScoped<F extends (...args: any[]) => any>(
+  fn: F,
+  sink?: Sink | null,
+  options?: ShuntOptions,
+): ShuntHandle<F>;
+
+export function shuntScoped(
+  target: object,
+  sink?: Sink | null,
+  methodsOrOptions?: string[] | ShuntOptions,
+): ShuntHandle<object> {
+  const shunted = shunt(target, sink, methodsOrOptions);
+  return {
+    target: shunted,
+    unshunt: () => unshunt(shunted),
+    [DISPOSE]: () => {
+      unshunt(shunted);
+    },
+  } as ShuntHandle<object>;
+}
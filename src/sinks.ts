@@ -6,6 +6,62 @@ import { ShuntlyRecord } from "./record.js";
 export interface Sink {
   write(record: ShuntlyRecord): void;
   close(): void;
+  /** Write and failure counts; every built-in sink reports them. */
+  health?(): SinkHealth;
+}
+
+/**
+ * How a sink's writes have gone, from `health()`.
+ */
+export interface SinkHealth {
+  /** False while the most recent write failed. */
+  healthy: boolean;
+  writes: number;
+  errors: number;
+  lastError: string | null;
+  /** ISO timestamp of the most recent failure. */
+  lastErrorAt: string | null;
+  /** The health of each of a `SinkMany`'s sinks, in order. */
+  sinks?: SinkHealth[];
+}
+
+/**
+ * Counts the writes and failures of a sink for its `health()`.
+ */
+class HealthCounter {
+  private writes = 0;
+  private errors = 0;
+  private lastError: string | null = null;
+  private lastErrorAt: string | null = null;
+  private healthy = true;
+
+  /**
+   * Run a write, counting it. Failures are rethrown, for the pipeline to
+   * report to `onSinkError`.
+   */
+  track(write: () => void): void {
+    try {
+      write();
+    } catch (err) {
+      this.errors++;
+      this.healthy = false;
+      this.lastError = err instanceof Error ? err.message : String(err);
+      this.lastErrorAt = new Date().toISOString();
+      throw err;
+    }
+    this.writes++;
+    this.healthy = true;
+  }
+
+  health(): SinkHealth {
+    return {
+      healthy: this.healthy,
+      writes: this.writes,
+      errors: this.errors,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+    };
+  }
 }
 
 /**
@@ -13,13 +69,20 @@ export interface Sink {
  */
 export class SinkStream implements Sink {
   private stream: NodeJS.WritableStream;
+  private readonly counter = new HealthCounter();
 
   constructor(stream?: NodeJS.WritableStream) {
     this.stream = stream ?? process.stderr;
   }
 
   write(record: ShuntlyRecord): void {
-    this.stream.write(record.toJSONString() + "\n");
+    this.counter.track(() => {
+      this.stream.write(record.toJSONString() + "\n");
+    });
+  }
+
+  health(): SinkHealth {
+    return this.counter.health();
   }
 
   close(): void {
@@ -33,6 +96,7 @@ export class SinkStream implements Sink {
 export class SinkFile implements Sink {
   private path: string;
   private fd: number | null = null;
+  private readonly counter = new HealthCounter();
 
   constructor(path: string) {
     this.path = path;
@@ -46,8 +110,14 @@ export class SinkFile implements Sink {
   }
 
   write(record: ShuntlyRecord): void {
-    const fd = this.ensureOpen();
-    fs.writeSync(fd, record.toJSONString() + "\n");
+    this.counter.track(() => {
+      const fd = this.ensureOpen();
+      fs.writeSync(fd, record.toJSONString() + "\n");
+    });
+  }
+
+  health(): SinkHealth {
+    return this.counter.health();
   }
 
   close(): void {
@@ -65,6 +135,7 @@ export class SinkFile implements Sink {
 export class SinkPipe implements Sink {
   private path: string;
   private fd: number | null = null;
+  private readonly counter = new HealthCounter();
 
   constructor(path: string) {
     this.path = path;
@@ -102,6 +173,14 @@ export class SinkPipe implements Sink {
   }
 
   write(record: ShuntlyRecord): void {
+    this.counter.track(() => this.writeLine(record));
+  }
+
+  health(): SinkHealth {
+    return this.counter.health();
+  }
+
+  private writeLine(record: ShuntlyRecord): void {
     const fd = this.ensureOpen();
     if (fd === null) {
       return;
@@ -156,6 +235,9 @@ export class SinkRotating implements Sink {
   private fd: number | null = null;
   private filePath: string | null = null;
   private fileSize: number = 0;
+  /** A failure to prune, thrown once the record being written is. */
+  private pruneError: unknown = null;
+  private readonly counter = new HealthCounter();
 
   constructor(
     directory: string,
@@ -186,8 +268,17 @@ export class SinkRotating implements Sink {
     if (this.fd !== null) {
       fs.closeSync(this.fd);
     }
-    const name = SinkRotating.makeFilename();
-    this.filePath = `${this.directory}/${name}`;
+    const previous = this.filePath;
+    this.filePath = `${this.directory}/${SinkRotating.makeFilename()}`;
+    // Files created in the same millisecond must still sort in the order
+    // they were created, as pruning stops at the current file
+    if (previous !== null && this.filePath <= previous) {
+      this.filePath = previous.replace(
+        /(\d+)Z\.jsonl$/,
+        (_, digits: string) =>
+          `${String(Number(digits) + 1).padStart(digits.length, "0")}Z.jsonl`,
+      );
+    }
     this.fd = fs.openSync(this.filePath, "a");
     this.fileSize = 0;
     return this.fd;
@@ -226,17 +317,33 @@ export class SinkRotating implements Sink {
       return this.openNewFile();
     }
     if (this.fileSize >= this.maxBytesFile) {
-      this.prune();
+      // Rotate even if pruning fails, so that records are still written
+      try {
+        this.prune();
+      } catch (err) {
+        this.pruneError = err;
+      }
       return this.openNewFile();
     }
     return this.fd;
   }
 
   write(record: ShuntlyRecord): void {
-    const fd = this.ensureOpen();
-    const line = record.toJSONString() + "\n";
-    fs.writeSync(fd, line);
-    this.fileSize += Buffer.byteLength(line);
+    this.counter.track(() => {
+      const fd = this.ensureOpen();
+      const line = record.toJSONString() + "\n";
+      fs.writeSync(fd, line);
+      this.fileSize += Buffer.byteLength(line);
+      if (this.pruneError !== null) {
+        const err = this.pruneError;
+        this.pruneError = null;
+        throw err;
+      }
+    });
+  }
+
+  health(): SinkHealth {
+    return this.counter.health();
   }
 
   close(): void {
@@ -250,19 +357,49 @@ export class SinkRotating implements Sink {
 }
 
 /**
- * Writes to multiple sinks.
+ * Writes to multiple sinks. A sink that fails does not keep the record from
+ * the others; the failures are thrown once all have been written to.
  */
 export class SinkMany implements Sink {
   private sinks: Sink[];
+  private readonly counter = new HealthCounter();
+  /** Counts for sinks without a `health()` of their own. */
+  private readonly counters: HealthCounter[];
 
   constructor(sinks: Sink[]) {
     this.sinks = sinks;
+    this.counters = sinks.map(() => new HealthCounter());
   }
 
   write(record: ShuntlyRecord): void {
-    for (const sink of this.sinks) {
-      sink.write(record);
-    }
+    this.counter.track(() => {
+      const errors: unknown[] = [];
+      this.sinks.forEach((sink, i) => {
+        try {
+          this.counters[i].track(() => sink.write(record));
+        } catch (err) {
+          errors.push(err);
+        }
+      });
+      if (errors.length === 1) {
+        throw errors[0];
+      }
+      if (errors.length > 1) {
+        throw new AggregateError(
+          errors,
+          `${errors.length} of ${this.sinks.length} sinks failed`,
+        );
+      }
+    });
+  }
+
+  health(): SinkHealth {
+    return {
+      ...this.counter.health(),
+      sinks: this.sinks.map(
+        (sink, i) => sink.health?.() ?? this.counters[i].health(),
+      ),
+    };
   }
 
   close(): void {
@@ -271,3 +408,105 @@ export class SinkMany implements Sink {
     }
   }
 }
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parse a size like "50MB" or "1GB" (binary units) into bytes.
+ */
+function parseBytes(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?b)?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid size: ${value}`);
+  }
+  const unit = BYTE_UNITS[(match[2] ?? "b").toLowerCase()];
+  return Math.floor(Number(match[1]) * unit);
+}
+
+/**
+ * Create a sink from a spec: `stderr`, `stdout`, `file:///path.jsonl`,
+ * `pipe:///path.fifo`, or
+ * `rotating:///dir?maxBytesFile=50MB&maxBytesDir=1GB`. Paths after `//` may
+ * also be relative, as in `file://./shuntly.jsonl`. Specs separated by
+ * commas write to all of them through `SinkMany`.
+ */
+export function sinkFromSpec(spec: string): Sink {
+  const specs = spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s !== "");
+  if (specs.length === 0) {
+    throw new Error("Empty sink spec");
+  }
+  if (specs.length > 1) {
+    return new SinkMany(specs.map(sinkFromSpec));
+  }
+  const [single] = specs;
+  if (single === "stderr") {
+    return new SinkStream();
+  }
+  if (single === "stdout") {
+    return new SinkStream(process.stdout);
+  }
+  const match = /^([a-z][a-z0-9+.-]*):(?:\/\/)?([^?]*)(?:\?(.*))?$/i.exec(
+    single,
+  );
+  const target = match ? decodeURIComponent(match[2]) : "";
+  if (!match || target === "") {
+    throw new Error(`Invalid sink spec: ${single}`);
+  }
+  const params = new URLSearchParams(match[3] ?? "");
+  switch (match[1].toLowerCase()) {
+    case "file":
+      return new SinkFile(target);
+    case "pipe":
+      return new SinkPipe(target);
+    case "rotating": {
+      const maxBytesFile = params.get("maxBytesFile");
+      const maxBytesDir = params.get("maxBytesDir");
+      return new SinkRotating(target, {
+        maxBytesFile:
+          maxBytesFile === null ? undefined : parseBytes(maxBytesFile),
+        maxBytesDir: maxBytesDir === null ? undefined : parseBytes(maxBytesDir),
+      });
+    }
+    default:
+      throw new Error(
+        `Unknown sink scheme "${match[1]}" in ${single}; expected stderr, stdout, file, pipe, or rotating`,
+      );
+  }
+}
+
+/**
+ * The sink from the `SHUNTLY_SINK` spec, shared by every `shunt()` call
+ * given no sink while the spec is unchanged.
+ */
+let envSink: { spec: string; sink: Sink } | null = null;
+
+/**
+ * The sink for calls given none: the `SHUNTLY_SINK` spec if set, else
+ * stderr. An invalid spec warns and falls back to stderr rather than fail
+ * the service it is set on.
+ */
+export function defaultSink(): Sink {
+  const spec = process.env.SHUNTLY_SINK?.trim();
+  if (!spec) {
+    return new SinkStream();
+  }
+  if (envSink?.spec !== spec) {
+    try {
+      envSink = { spec, sink: sinkFromSpec(spec) };
+    } catch (err) {
+      process.emitWarning(
+        `Shuntly ignored SHUNTLY_SINK: ${(err as Error).message}`,
+      );
+      return new SinkStream();
+    }
+  }
+  return envSink.sink;
+}
@@ -0,0 +1,180 @@
+type AnyObject = Record<string, unknown>;
+
+export interface GapStats {
+  min: number;
+  max: number;
+  p50: number;
+  p95: number;
+}
+
+export interface StreamTiming {
+  /** Chunks received before the stream ended. */
+  chunkCount: number;
+  /** From call start to the first chunk of any kind. */
+  timeToFirstChunkMs: number | null;
+  /** From call start to the first chunk carrying generated content. */
+  timeToFirstTokenMs: number | null;
+  /** Gaps between consecutive chunk arrivals; null with fewer than 2 chunks. */
+  chunkGapMs: GapStats | null;
+  /** Time spent waiting on the provider for chunks. */
+  producerMs: number;
+  /** Time the consumer spent between receiving a chunk and asking for the next. */
+  consumerMs: number;
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * Whether a chunk carries generated content (text, thinking, or tool call
+ * arguments) rather than only metadata.
+ */
+export function isContentChunk(chunk: unknown): boolean {
+  if (chunk === null || typeof chunk !== "object") {
+    return false;
+  }
+  const c = chunk as AnyObject;
+
+  // Anthropic
+  if (c.type === "content_block_delta") {
+    const delta = (c.delta as AnyObject | undefined) ?? {};
+    return (
+      isNonEmptyString(delta.text) ||
+      isNonEmptyString(delta.thinking) ||
+      isNonEmptyString(delta.partial_json)
+    );
+  }
+  // pi-ai
+  if (
+    c.type === "text_delta" ||
+    c.type === "thinking_delta" ||
+    c.type === "toolcall_delta"
+  ) {
+    return isNonEmptyString(c.delta);
+  }
+  // OpenAI
+  if (Array.isArray(c.choices)) {
+    return c.choices.some((choice: AnyObject) => {
+      const delta = (choice?.delta as AnyObject | undefined) ?? {};
+      return (
+        isNonEmptyString(delta.content) ||
+        isNonEmptyString(delta.refusal) ||
+        isNonEmptyString(delta.reasoning_content) ||
+        (Array.isArray(delta.tool_calls) && delta.tool_calls.length > 0)
+      );
+    });
+  }
+  // Gemini
+  if (Array.isArray(c.candidates)) {
+    return c.candidates.some((candidate: AnyObject) => {
+      const parts = (candidate?.content as AnyObject | undefined)?.parts;
+      return (
+        Array.isArray(parts) &&
+        parts.some(
+          (part: AnyObject) =>
+            isNonEmptyString(part?.text) || part?.functionCall !== undefined,
+        )
+      );
+    });
+  }
+  // Ollama
+  if (c.message !== null && typeof c.message === "object") {
+    const message = c.message as AnyObject;
+    return (
+      isNonEmptyString(message.content) ||
+      isNonEmptyString(message.thinking) ||
+      (Array.isArray(message.tool_calls) && message.tool_calls.length > 0)
+    );
+  }
+  if ("response" in c && typeof c.done === "boolean") {
+    return isNonEmptyString(c.response) || isNonEmptyString(c.thinking);
+  }
+  // Bare text chunks
+  return isNonEmptyString(c.text);
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function gapStats(arrivals: number[]): GapStats | null {
+  if (arrivals.length < 2) {
+    return null;
+  }
+  const gaps: number[] = [];
+  for (let i = 1; i < arrivals.length; i++) {
+    gaps.push(arrivals[i] - arrivals[i - 1]);
+  }
+  gaps.sort((a, b) => a - b);
+  return {
+    min: gaps[0],
+    max: gaps[gaps.length - 1],
+    p50: percentile(gaps, 50),
+    p95: percentile(gaps, 95),
+  };
+}
+
+/**
+ * Tracks chunk arrival times and splits elapsed time between the producer
+ * (awaiting the underlying iterator) and the consumer (between chunks).
+ */
+export class StreamClock {
+  private readonly arrivals: number[] = [];
+  private producerMs = 0;
+  private consumerMs = 0;
+  private lastYield: number | null = null;
+  private waitStart = 0;
+  private readonly created = performance.now();
+
+  beforeNext(): void {
+    const now = performance.now();
+    if (this.lastYield !== null) {
+      this.consumerMs += now - this.lastYield;
+      this.lastYield = null;
+    }
+    this.waitStart = now;
+  }
+
+  afterNext(done: boolean): void {
+    const now = performance.now();
+    this.producerMs += now - this.waitStart;
+    if (!done) {
+      this.arrivals.push(now);
+      this.lastYield = now;
+    }
+  }
+
+  /**
+   * Note a chunk pushed by an event-based stream. The consumer cannot stall
+   * such a stream, so all time up to the chunk counts as producer time.
+   */
+  arrive(): void {
+    const now = performance.now();
+    this.producerMs += now - (this.arrivals.at(-1) ?? this.created);
+    this.arrivals.push(now);
+  }
+
+  /**
+   * Summarize timing relative to the call start time.
+   */
+  summarize(startTime: number, chunks: unknown[]): StreamTiming {
+    const firstToken = chunks.findIndex(isContentChunk);
+    return {
+      chunkCount: this.arrivals.length,
+      timeToFirstChunkMs:
+        this.arrivals.length > 0 ? this.arrivals[0] - startTime : null,
+      timeToFirstTokenMs:
+        firstToken >= 0 && firstToken < this.arrivals.length
+          ? this.arrivals[firstToken] - startTime
+          : null,
+      chunkGapMs: gapStats(this.arrivals),
+      producerMs: this.producerMs,
+      consumerMs: this.consumerMs,
+    };
+  }
+}
@@ -0,0 +1,236 @@
+type AnyObject = Record<string, unknown>;
+
+/**
+ * A tool offered in a request, normalized across providers.
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string | null;
+  /** The tool's input JSON schema; null for built-in tools. */
+  parameters: unknown;
+}
+
+/**
+ * A tool call returned in a response, normalized across providers.
+ */
+export interface ToolCall {
+  /** The provider's call id; null where the provider does not assign one. */
+  id: string | null;
+  name: string;
+  /** Parsed arguments, or the raw string when it is not valid JSON. */
+  arguments: unknown;
+  /** Why the arguments failed to parse; null when they parsed. */
+  parseError: string | null;
+}
+
+function isObject(value: unknown): value is AnyObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function definition(
+  name: unknown,
+  description: unknown,
+  parameters: unknown,
+): ToolDefinition {
+  return {
+    name: String(name),
+    description: str(description),
+    parameters: parameters ?? null,
+  };
+}
+
+/**
+ * Normalize one entry of a request's `tools`.
+ */
+function fromTool(tool: unknown): ToolDefinition[] {
+  if (!isObject(tool)) {
+    return [];
+  }
+  // OpenAI chat completions and Ollama
+  if (isObject(tool.function)) {
+    const fn = tool.function;
+    return [definition(fn.name, fn.description, fn.parameters)];
+  }
+  // Gemini
+  if (Array.isArray(tool.functionDeclarations)) {
+    return tool.functionDeclarations
+      .filter(isObject)
+      .map((fn) =>
+        definition(
+          fn.name,
+          fn.description,
+          fn.parameters ?? fn.parametersJsonSchema,
+        ),
+      );
+  }
+  // Anthropic, the Responses API, and pi-ai
+  if (typeof tool.name === "string") {
+    return [
+      definition(
+        tool.name,
+        tool.description,
+        tool.input_schema ?? tool.parameters,
+      ),
+    ];
+  }
+  // Built-in tools without a name, e.g. the Responses API's web_search
+  if (typeof tool.type === "string") {
+    return [definition(tool.type, null, null)];
+  }
+  return [];
+}
+
+/**
+ * Extract the tools offered in a request of any supported provider.
+ */
+export function extractToolDefinitions(request: unknown): ToolDefinition[] {
+  if (!isObject(request)) {
+    return [];
+  }
+  const tools = request.tools;
+  if (Array.isArray(tools)) {
+    return tools.flatMap(fromTool);
+  }
+  // The AI SDK keys tools by name
+  if (isObject(tools)) {
+    return Object.entries(tools).map(([name, tool]) =>
+      definition(
+        name,
+        isObject(tool) ? tool.description : null,
+        isObject(tool) ? tool.schema : null,
+      ),
+    );
+  }
+  // OpenAI's legacy function calling
+  if (Array.isArray(request.functions)) {
+    return request.functions
+      .filter(isObject)
+      .map((fn) => definition(fn.name, fn.description, fn.parameters));
+  }
+  // Gemini passes tools in its config
+  if (isObject(request.config)) {
+    return extractToolDefinitions(request.config);
+  }
+  return [];
+}
+
+/**
+ * Normalize a tool call, parsing arguments sent as a JSON string, as OpenAI
+ * does.
+ */
+export function normalizeToolCall(
+  id: unknown,
+  name: unknown,
+  args: unknown,
+): ToolCall {
+  const result: ToolCall = {
+    id: str(id),
+    name: String(name),
+    arguments: args ?? null,
+    parseError: null,
+  };
+  if (typeof args === "string") {
+    try {
+      result.arguments = args.trim() === "" ? {} : JSON.parse(args);
+    } catch (err) {
+      result.parseError = (err as Error).message;
+    }
+  }
+  return result;
+}
+
+/**
+ * Normalize a message's `tool_calls`, as OpenAI chat completions and Ollama
+ * return them.
+ */
+function fromToolCalls(message: AnyObject): ToolCall[] {
+  const calls: ToolCall[] = [];
+  if (Array.isArray(message.tool_calls)) {
+    for (const item of message.tool_calls.filter(isObject)) {
+      const fn = isObject(item.function) ? item.function : {};
+      calls.push(normalizeToolCall(item.id, fn.name, fn.arguments));
+    }
+  }
+  // OpenAI's legacy function calling
+  if (isObject(message.function_call)) {
+    const fn = message.function_call;
+    calls.push(normalizeToolCall(null, fn.name, fn.arguments));
+  }
+  return calls;
+}
+
+/**
+ * Extract the tool calls in a (reassembled) response of any supported
+ * provider.
+ */
+export function extractToolCalls(response: unknown): ToolCall[] {
+  if (!isObject(response)) {
+    return [];
+  }
+  // Anthropic tool_use blocks and pi-ai toolCall blocks
+  if (Array.isArray(response.content)) {
+    return response.content
+      .filter(isObject)
+      .flatMap((block) =>
+        block.type === "tool_use" || block.type === "server_tool_use"
+          ? [normalizeToolCall(block.id, block.name, block.input)]
+          : block.type === "toolCall"
+            ? [normalizeToolCall(block.id, block.name, block.arguments)]
+            : [],
+      );
+  }
+  // OpenAI chat completions
+  if (Array.isArray(response.choices)) {
+    return response.choices
+      .filter(isObject)
+      .flatMap((choice) =>
+        isObject(choice.message) ? fromToolCalls(choice.message) : [],
+      );
+  }
+  // The Responses API
+  if (Array.isArray(response.output)) {
+    return response.output
+      .filter(isObject)
+      .filter((item) => item.type === "function_call")
+      .map((item) =>
+        normalizeToolCall(item.call_id ?? item.id, item.name, item.arguments),
+      );
+  }
+  // Gemini
+  if (Array.isArray(response.candidates)) {
+    return response.candidates.filter(isObject).flatMap((candidate) => {
+      const content = isObject(candidate.content) ? candidate.content : {};
+      const parts = Array.isArray(content.parts) ? content.parts : [];
+      return parts
+        .filter(isObject)
+        .filter((part) => isObject(part.functionCall))
+        .map((part) => {
+          const fn = part.functionCall as AnyObject;
+          return normalizeToolCall(fn.id, fn.name, fn.args);
+        });
+    });
+  }
+  // The AI SDK; v5 renamed args to input
+  if (Array.isArray(response.toolCalls)) {
+    return response.toolCalls
+      .filter(isObject)
+      .map((item) =>
+        normalizeToolCall(
+          item.toolCallId,
+          item.toolName,
+          item.input ?? item.args,
+        ),
+      );
+  }
+  // Ollama, and pi-ai events wrapping the final message
+  if (isObject(response.message)) {
+    return Array.isArray(response.message.content)
+      ? extractToolCalls(response.message)
+      : fromToolCalls(response.message);
+  }
+  return [];
+}
@@ -0,0 +1,127 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+
+/**
+ * A span in the current async context, compatible with W3C Trace Context.
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  name: string;
+  sampled: boolean;
+}
+
+/**
+ * Trace fields stamped onto each record.
+ */
+export interface RecordTrace {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  parentSpanName: string | null;
+}
+
+const storage = new AsyncLocalStorage<SpanContext>();
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+function newTraceId(): string {
+  return randomBytes(16).toString("hex");
+}
+
+function newSpanId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * Parse a W3C `traceparent` header. Returns null if it is malformed. The
+ * parsed span has an empty name, as the remote span's name is not known.
+ */
+export function parseTraceparent(header: string): SpanContext | null {
+  const match = TRACEPARENT.exec(header.trim().toLowerCase());
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    name: "",
+    sampled: (parseInt(match[3], 16) & 1) === 1,
+  };
+}
+
+/**
+ * Format a span as a W3C `traceparent` header. Defaults to the current span;
+ * returns undefined outside of any span.
+ */
+export function traceparent(
+  context: SpanContext | undefined = currentSpan(),
+): string | undefined {
+  if (!context) {
+    return undefined;
+  }
+  const flags = context.sampled ? "01" : "00";
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * The span of the current async context, if any.
+ */
+export function currentSpan(): SpanContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Create a child of the given span, or the root span of a new trace.
+ */
+export function childSpan(
+  parent: SpanContext | undefined,
+  name: string,
+): SpanContext {
+  return {
+    traceId: parent?.traceId ?? newTraceId(),
+    spanId: newSpanId(),
+    name,
+    sampled: parent?.sampled ?? true,
+  };
+}
+
+/**
+ * Trace fields for a record of a call made in `context`, whose parent is
+ * `parent` (undefined for a root span).
+ */
+export function recordTrace(
+  context: SpanContext,
+  parent?: SpanContext,
+): RecordTrace {
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    parentSpanId: parent?.spanId ?? null,
+    parentSpanName: parent ? parent.name || null : null,
+  };
+}
+
+/**
+ * Run `fn` within the given span.
+ */
+export function runInSpan<T>(context: SpanContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run `fn` in a named span. Records of shunted calls made within `fn`,
+ * including across awaits, share its trace id and name it as their parent.
+ * Pass `traceparent` to continue a trace started elsewhere.
+ */
+export function span<T>(
+  name: string,
+  fn: () => T,
+  options?: { traceparent?: string },
+): T {
+  const parent =
+    (options?.traceparent !== undefined
+      ? parseTraceparent(options.traceparent)
+      : null) ?? currentSpan();
+  return runInSpan(childSpan(parent, name), fn);
+}
@@ -0,0 +1,212 @@
+type AnyObject = Record<string, unknown>;
+
+/**
+ * Token usage normalized across providers. `inputTokens` includes cached
+ * input, and `outputTokens` includes reasoning; a field is null when the
+ * provider does not report it.
+ */
+export interface Usage {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  cacheReadTokens: number | null;
+  cacheWriteTokens: number | null;
+  reasoningTokens: number | null;
+  totalTokens: number | null;
+}
+
+function isObject(value: unknown): value is AnyObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function num(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Sum values, treating null as 0 unless all are null.
+ */
+function sum(...values: (number | null)[]): number | null {
+  if (values.every((v) => v === null)) {
+    return null;
+  }
+  return values.reduce<number>((acc, v) => acc + (v ?? 0), 0);
+}
+
+function fromAnthropic(usage: AnyObject): Usage {
+  const cacheRead = num(usage.cache_read_input_tokens);
+  const cacheWrite = num(usage.cache_creation_input_tokens);
+  // Anthropic's input_tokens excludes cached input
+  const input = sum(num(usage.input_tokens), cacheRead, cacheWrite);
+  const output = num(usage.output_tokens);
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    cacheReadTokens: cacheRead,
+    cacheWriteTokens: cacheWrite,
+    reasoningTokens: null,
+    totalTokens: sum(input, output),
+  };
+}
+
+function fromOpenAIResponses(usage: AnyObject): Usage {
+  const inputDetails = isObject(usage.input_tokens_details)
+    ? usage.input_tokens_details
+    : {};
+  const outputDetails = isObject(usage.output_tokens_details)
+    ? usage.output_tokens_details
+    : {};
+  const input = num(usage.input_tokens);
+  const output = num(usage.output_tokens);
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    cacheReadTokens: num(inputDetails.cached_tokens),
+    cacheWriteTokens: null,
+    reasoningTokens: num(outputDetails.reasoning_tokens),
+    totalTokens: num(usage.total_tokens) ?? sum(input, output),
+  };
+}
+
+function fromOpenAIChat(usage: AnyObject): Usage {
+  const promptDetails = isObject(usage.prompt_tokens_details)
+    ? usage.prompt_tokens_details
+    : {};
+  const completionDetails = isObject(usage.completion_tokens_details)
+    ? usage.completion_tokens_details
+    : {};
+  const input = num(usage.prompt_tokens);
+  const output = num(usage.completion_tokens);
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    cacheReadTokens: num(promptDetails.cached_tokens),
+    cacheWriteTokens: null,
+    reasoningTokens: num(completionDetails.reasoning_tokens),
+    totalTokens: num(usage.total_tokens) ?? sum(input, output),
+  };
+}
+
+function fromPiAi(usage: AnyObject): Usage {
+  const cacheRead = num(usage.cacheRead);
+  const cacheWrite = num(usage.cacheWrite);
+  // pi-ai's input excludes cached input
+  const input = sum(num(usage.input), cacheRead, cacheWrite);
+  const output = num(usage.output);
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    cacheReadTokens: cacheRead,
+    cacheWriteTokens: cacheWrite,
+    reasoningTokens: null,
+    totalTokens: num(usage.totalTokens) ?? sum(input, output),
+  };
+}
+
+function fromVercel(usage: AnyObject): Usage {
+  // AI SDK v4 reports promptTokens and completionTokens; v5 renamed them
+  const input = num(usage.inputTokens) ?? num(usage.promptTokens);
+  const output = num(usage.outputTokens) ?? num(usage.completionTokens);
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    cacheReadTokens: num(usage.cachedInputTokens),
+    cacheWriteTokens: null,
+    reasoningTokens: num(usage.reasoningTokens),
+    totalTokens: num(usage.totalTokens) ?? sum(input, output),
+  };
+}
+
+function fromGemini(metadata: AnyObject): Usage {
+  const input = sum(
+    num(metadata.promptTokenCount),
+    num(metadata.toolUsePromptTokenCount),
+  );
+  const reasoning = num(metadata.thoughtsTokenCount);
+  const output = sum(num(metadata.candidatesTokenCount), reasoning);
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    cacheReadTokens: num(metadata.cachedContentTokenCount),
+    cacheWriteTokens: null,
+    reasoningTokens: reasoning,
+    totalTokens: num(metadata.totalTokenCount) ?? sum(input, output),
+  };
+}
+
+function fromOllama(response: AnyObject): Usage {
+  const input = num(response.prompt_eval_count);
+  const output = num(response.eval_count);
+  return {
+    inputTokens: input,
+    outputTokens: output,
+    cacheReadTokens: null,
+    cacheWriteTokens: null,
+    reasoningTokens: null,
+    totalTokens: sum(input, output),
+  };
+}
+
+/**
+ * Extract normalized usage from a serialized response of any supported
+ * provider. Returns null if the response carries no usage.
+ */
+export function extractUsage(response: unknown): Usage | null {
+  if (!isObject(response)) {
+    return null;
+  }
+  const usage = response.usage;
+  if (isObject(usage)) {
+    if ("prompt_tokens" in usage || "completion_tokens" in usage) {
+      return fromOpenAIChat(usage);
+    }
+    if ("input_tokens_details" in usage || "total_tokens" in usage) {
+      return fromOpenAIResponses(usage);
+    }
+    if ("input_tokens" in usage || "output_tokens" in usage) {
+      return fromAnthropic(usage);
+    }
+    if ("input" in usage || "output" in usage) {
+      return fromPiAi(usage);
+    }
+    if ("inputTokens" in usage || "promptTokens" in usage) {
+      return fromVercel(usage);
+    }
+  }
+  if (isObject(response.usageMetadata)) {
+    return fromGemini(response.usageMetadata);
+  }
+  if ("prompt_eval_count" in response || "eval_count" in response) {
+    return fromOllama(response);
+  }
+  // Responses API stream events and pi-ai events wrap the final object
+  for (const key of ["response", "message"]) {
+    if (isObject(response[key])) {
+      const nested = extractUsage(response[key]);
+      if (nested) {
+        return nested;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract usage for a stream, preferring the reassembled response and
+ * otherwise taking the last chunk that reports usage.
+ */
+export function extractStreamUsage(
+  reassembled: unknown,
+  chunks: unknown[],
+): Usage | null {
+  const usage = extractUsage(reassembled);
+  if (usage) {
+    return usage;
+  }
+  for (let i = chunks.length - 1; i >= 0; i--) {
+    const chunkUsage = extractUsage(chunks[i]);
+    if (chunkUsage) {
+      return chunkUsage;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,208 @@
+import { CallAdapter } from "./adapter.js";
+import { toError } from "./errors.js";
+
+type AnyObject = Record<string, unknown>;
+type AnyFunction = (...args: unknown[]) => unknown;
+
+function isObject(value: unknown): value is AnyObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check for an AI SDK `LanguageModel`, e.g. `openai("gpt-4o")`.
+ */
+function isLanguageModel(value: unknown): value is AnyObject {
+  return (
+    isObject(value) &&
+    typeof value.specificationVersion === "string" &&
+    typeof value.provider === "string" &&
+    typeof value.modelId === "string"
+  );
+}
+
+/**
+ * Name a model "provider/modelId", e.g. "openai.chat/gpt-4o". Models given
+ * as gateway strings are already named so.
+ */
+function modelName(model: unknown): string {
+  return isLanguageModel(model)
+    ? `${model.provider}/${model.modelId}`
+    : String(model);
+}
+
+/**
+ * Keep JSON schemas (from `jsonSchema()`); Zod schemas do not serialize.
+ */
+function schemaOf(schema: unknown): unknown {
+  return isObject(schema) && isObject(schema.jsonSchema)
+    ? schema.jsonSchema
+    : null;
+}
+
+/**
+ * The options of a call, with the model replaced by its name and tools and
+ * schemas reduced to what serializes.
+ */
+function vercelRequest(options: AnyObject): AnyObject {
+  const request: AnyObject = { ...options };
+  delete request.model;
+  delete request.abortSignal;
+  if (isObject(request.tools)) {
+    request.tools = Object.fromEntries(
+      Object.entries(request.tools).map(([name, tool]) => {
+        const { description, parameters, inputSchema } = (tool ??
+          {}) as AnyObject;
+        return [
+          name,
+          { description, schema: schemaOf(inputSchema ?? parameters) },
+        ];
+      }),
+    );
+  }
+  if ("schema" in request) {
+    request.schema = schemaOf(request.schema);
+  }
+  return { model: modelName(options.model), ...request };
+}
+
+const RESULT_FIELDS = [
+  "text",
+  "reasoning",
+  "object",
+  "toolCalls",
+  "toolResults",
+  "finishReason",
+  "warnings",
+];
+
+/**
+ * The parts of a result (or `onFinish` event) worth recording. Results are
+ * class instances whose fields are partly getters, and carry every step and
+ * message again, so they are picked rather than serialized whole.
+ */
+export function vercelResult(result: unknown): AnyObject {
+  if (!isObject(result)) {
+    return {};
+  }
+  const picked: AnyObject = {};
+  for (const field of RESULT_FIELDS) {
+    if (result[field] !== undefined) {
+      picked[field] = result[field];
+    }
+  }
+  // Multi-step calls report the sum over steps separately
+  const usage = result.totalUsage ?? result.usage;
+  if (usage !== undefined) {
+    picked.usage = usage;
+  }
+  if (isObject(result.response)) {
+    const { id, modelId, timestamp } = result.response;
+    picked.response = { id, modelId, timestamp };
+  }
+  return picked;
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as AnyObject).then === "function"
+  );
+}
+
+/**
+ * Call `callback` after the caller's own, if any.
+ */
+function chain(
+  own: unknown,
+  callback: (event: AnyObject) => void,
+): (event: AnyObject) => unknown {
+  return (event) => {
+    callback(event ?? {});
+    return typeof own === "function" ? (own as AnyFunction)(event) : undefined;
+  };
+}
+
+/**
+ * Adapt calls to the AI SDK's (`ai`) `generateText`, `streamText`,
+ * `generateObject`, and `streamObject`, which take a single options object
+ * with a `model`: a `LanguageModel`, or with `always` (the `vercel` option),
+ * also a gateway model string. Returns null for any other call.
+ *
+ * Streamed results can be consumed through `textStream`, `fullStream`, or
+ * promise-valued fields like `text`, so rather than wrap each of them, the
+ * adapter observes the `onChunk`, `onFinish`, `onError`, and `onAbort`
+ * callbacks, which fire however the result is consumed. The caller's own
+ * callbacks still run, and without an `onError` of the caller's, errors are
+ * still logged as the SDK's default `onError` does.
+ */
+export function vercelAdapter(
+  args: unknown[],
+  always = false,
+): CallAdapter | null {
+  if (args.length !== 1 || !isObject(args[0])) {
+    return null;
+  }
+  const options = args[0];
+  const model = options.model;
+  if (!isLanguageModel(model) && !(always && typeof model === "string")) {
+    return null;
+  }
+  // Callbacks also fire for generateText and generateObject, whose promised
+  // result is recorded instead
+  let streamed = false;
+  return {
+    client: modelName(options.model),
+    request: vercelRequest(options),
+    args: (observer) => [
+      {
+        ...options,
+        onChunk: chain(options.onChunk, (event) => {
+          if (streamed) {
+            observer.chunk(event.chunk);
+          }
+        }),
+        onFinish: chain(options.onFinish, (event) => {
+          if (!streamed) {
+            return;
+          }
+          // streamObject reports a final object failing its schema here
+          if (event.error) {
+            observer.error(toError(event.error));
+          } else {
+            observer.finish(vercelResult(event));
+          }
+        }),
+        onError: chain(
+          typeof options.onError === "function"
+            ? options.onError
+            : (event: AnyObject) => console.error(event.error),
+          (event) => {
+            if (streamed) {
+              observer.error(toError(event.error));
+            }
+          },
+        ),
+        onAbort: chain(options.onAbort, () => {
+          if (!streamed) {
+            return;
+          }
+          const err = new Error("The stream was aborted");
+          err.name = "AbortError";
+          observer.error(err);
+        }),
+      },
+    ],
+    result: (result, observer) => {
+      if (isThenable(result)) {
+        result.then(
+          (resolved) => observer.response(vercelResult(resolved)),
+          (err: Error) => observer.error(err),
+        );
+      } else {
+        streamed = true;
+      }
+      return result;
+    },
+  };
+}
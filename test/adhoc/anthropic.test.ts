@@ -105,4 +105,36 @@ maybe("anthropic adhoc", () => {
     expect(Array.isArray(record.response)).toBe(true);
     expect(record.response.length).toBeGreaterThan(0);
   });
+  it("captures messages.stream consumed with finalMessage()", async () => {
+    const sinkLines: string[] = [];
+    const writable = new Writable({
+      write(chunk, _encoding, callback) {
+        sinkLines.push(chunk.toString());
+        callback();
+      },
+    });
+    const client = shunt(
+      new Anthropic({ apiKey: API_KEY }),
+      new SinkStream(writable),
+    );
+
+    const message = await client.messages
+      .stream({
+        model: MODEL,
+        max_tokens: 32,
+        messages: [
+          { role: "user", content: "Reply with the single word: pong" },
+        ],
+      })
+      .finalMessage();
+
+    expect(message.id).toMatch(/^msg_/);
+
+    // Exactly one record, for the helper rather than its inner create call
+    expect(sinkLines).toHaveLength(1);
+    const record = JSON.parse(sinkLines[0].trim());
+    expect(record.method).toBe("messages.stream");
+    expect(record.error).toBeNull();
+    expect(record.reassembled.id).toBe(message.id);
+  });
 });
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { shunt, BlobStore, SinkFile, validateRecord } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+class MockMessages {
+  create = async (params: { model: string; messages: unknown[] }) => {
+    return {
+      id: "msg_fake",
+      content: [{ type: "text", text: "A red square" }],
+      model: params.model,
+    };
+  };
+}
+
+class Anthropic {
+  messages = new MockMessages();
+}
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "shuntly-test-"));
+}
+
+const IMAGE = Buffer.from("\x89PNG not really an image").toString("base64");
+
+class OpenAI {
+  images = {
+    generate: async (params: { prompt: string }) => ({
+      created: 1,
+      data: [{ b64_json: IMAGE }],
+    }),
+  };
+}
+
+function imageMessage(text: string) {
+  return {
+    role: "user",
+    content: [
+      {
+        type: "image",
+        source: { type: "base64", media_type: "image/png", data: IMAGE },
+      },
+      { type: "text", text },
+    ],
+  };
+}
+
+describe("blobs", () => {
+  it("stores base64 images once and rehydrates records", async () => {
+    const dir = tempDir();
+    try {
+      const sink = new TestSink();
+      const client = shunt(new Anthropic(), sink, {
+        blobs: { directory: dir },
+      });
+      const first = [imageMessage("What is this?")];
+      const second = [...first, imageMessage("And this?")];
+      await client.messages.create({ model: "claude", messages: first });
+      await client.messages.create({ model: "claude", messages: second });
+
+      const record = sink.records[1].toJSON();
+      const request = record.request as {
+        messages: { content: { source?: unknown }[] }[];
+      };
+      const sha256 = record.blobs![0];
+      expect(record.blobs).toEqual([sha256]);
+      expect(request.messages[1].content[0].source).toEqual({
+        type: "base64",
+        media_type: "image/png",
+        data: {
+          type: "blob",
+          sha256,
+          bytes: Buffer.from(IMAGE, "base64").length,
+          mediaType: "image/png",
+          encoding: "base64",
+        },
+      });
+      expect(fs.readdirSync(dir)).toEqual([sha256]);
+      expect(validateRecord(JSON.parse(JSON.stringify(record))).valid).toBe(
+        true,
+      );
+
+      const store = new BlobStore(dir);
+      expect(store.rehydrate(record).request).toEqual({
+        model: "claude",
+        messages: second,
+      });
+      expect(second[1].content[0].source).toHaveProperty("data", IMAGE);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("stores data URLs, provider payloads, and large strings", async () => {
+    const dir = tempDir();
+    try {
+      const sink = new TestSink();
+      const client = shunt(new Anthropic(), sink, {
+        blobs: { directory: dir, minBytes: 100 },
+      });
+      const request = {
+        model: "claude",
+        messages: [
+          {
+            type: "image_url",
+            image_url: { url: `data:image/png;base64,${IMAGE}` },
+          },
+          { type: "input_audio", input_audio: { data: IMAGE, format: "wav" } },
+          { inlineData: { mimeType: "text/csv", data: "YSxi" } },
+          { type: "text", text: "x".repeat(100) },
+        ],
+      };
+      await client.messages.create(request);
+
+      const record = sink.records[0].toJSON();
+      const messages = (record.request as { messages: unknown[] }).messages;
+      expect(messages).toMatchObject([
+        {
+          image_url: {
+            url: { mediaType: "image/png", encoding: "data-url" },
+          },
+        },
+        {
+          input_audio: { data: { mediaType: "audio/wav", encoding: "base64" } },
+        },
+        // Small, and not of a stored media type
+        { inlineData: { mimeType: "text/csv", data: "YSxi" } },
+        { text: { type: "blob", bytes: 100, encoding: "text" } },
+      ]);
+      // The image and the audio are the same bytes
+      expect(record.blobs).toHaveLength(2);
+      expect(new BlobStore(dir).rehydrate(record).request).toEqual(request);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("stores strings whole beyond the serializer's limit", async () => {
+    const dir = tempDir();
+    try {
+      const sink = new TestSink();
+      const client = shunt(new Anthropic(), sink, {
+        blobs: { directory: dir, minBytes: 100 },
+        serialize: { maxStringLength: 10 },
+      });
+      const text = "x".repeat(100);
+      await client.messages.create({ model: "claude", messages: [text] });
+
+      const record = sink.records[0].toJSON();
+      expect(record.request.model).toBe("claude");
+      expect(new BlobStore(dir).rehydrate(record).request).toEqual({
+        model: "claude",
+        messages: [text],
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("stores generated images, for replay as well", async () => {
+    const dir = tempDir();
+    try {
+      const log = path.join(dir, "calls.jsonl");
+      const blobs = path.join(dir, "blobs");
+      const sink = new SinkFile(log);
+      const client = shunt(new OpenAI(), sink, {
+        methods: ["images.generate"],
+        blobs: { directory: blobs },
+        redact: {},
+      });
+      await client.images.generate({ prompt: "a red square" });
+      sink.close();
+
+      const record = JSON.parse(fs.readFileSync(log, "utf8"));
+      expect(record.response.data[0].b64_json).toMatchObject({
+        type: "blob",
+        encoding: "base64",
+      });
+      expect(record.blobs).toHaveLength(1);
+
+      const replayed = shunt(new OpenAI(), null, {
+        methods: ["images.generate"],
+        replay: { mode: "replay", source: log, blobs },
+      });
+      const images = await replayed.images.generate({ prompt: "a red square" });
+      expect(images.data[0].b64_json).toBe(IMAGE);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { shunt } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+class Ollama {
+  chat = async (params: { fail?: boolean; delayMs?: number }) => {
+    if (params.delayMs) {
+      await new Promise((r) => setTimeout(r, params.delayMs));
+    }
+    if (params.fail) {
+      throw new Error("boom");
+    }
+    return { message: { content: "ok" } };
+  };
+
+  generate = async (params: object) => ({ response: "ok" });
+}
+
+describe("capture policy", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("samples calls and records the rate", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink, { capture: { sampleRate: 0.25 } });
+    const random = vi.spyOn(Math, "random");
+
+    random.mockReturnValue(0.1);
+    await client.chat({});
+    random.mockReturnValue(0.9);
+    await client.chat({});
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].capture).toEqual({
+      sampleRate: 0.25,
+      reason: "sampled",
+    });
+    expect(sink.records[0].toJSON().capture).toEqual(sink.records[0].capture);
+  });
+
+  it("always captures errors by default", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink, { capture: { sampleRate: 0 } });
+
+    await client.chat({});
+    await expect(client.chat({ fail: true })).rejects.toThrow("boom");
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].error).toBe("Error: boom");
+    expect(sink.records[0].capture).toEqual({ sampleRate: 1, reason: "error" });
+  });
+
+  it("can drop errors with sampling", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink, {
+      capture: { sampleRate: 0, alwaysCaptureErrors: false },
+    });
+
+    await expect(client.chat({ fail: true })).rejects.toThrow("boom");
+
+    expect(sink.records).toHaveLength(0);
+  });
+
+  it("captures only slow calls", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink, {
+      capture: { minDurationMs: 20 },
+    });
+
+    await client.chat({});
+    await client.chat({ delayMs: 30 });
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].durationMs).toBeGreaterThanOrEqual(20);
+  });
+
+  it("applies allow and deny lists", async () => {
+    const sink = new TestSink();
+    const allowed = shunt(new Ollama(), sink, {
+      capture: { allow: ["Ollama.generate"] },
+    });
+    await allowed.chat({});
+    await allowed.generate({});
+
+    const denied = shunt(new Ollama(), sink, {
+      capture: { deny: ["generate"] },
+    });
+    await denied.chat({});
+    await denied.generate({});
+
+    expect(sink.records.map((r) => r.method)).toEqual(["generate", "chat"]);
+  });
+
+  it("consults the predicate with the would-be record", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink, {
+      capture: {
+        predicate: (record) =>
+          (record.request as { keep?: boolean }).keep === true,
+      },
+    });
+
+    await client.chat({ keep: true } as object);
+    await client.chat({});
+
+    expect(sink.records).toHaveLength(1);
+  });
+
+  it("keeps records and reports errors when the predicate throws", async () => {
+    const sink = new TestSink();
+    const errors: unknown[] = [];
+    const client = shunt(new Ollama(), sink, {
+      capture: {
+        predicate: () => {
+          throw new Error("predicate failed");
+        },
+      },
+      onSinkError: (error, record) => errors.push([error, record?.method]),
+    });
+
+    await expect(client.chat({})).resolves.toEqual({
+      message: { content: "ok" },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(sink.records).toHaveLength(1);
+    expect(errors).toEqual([[new Error("predicate failed"), "chat"]]);
+  });
+
+  it("omits the decision without a policy", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink);
+    await client.chat({});
+
+    expect("capture" in sink.records[0].toJSON()).toBe(false);
+  });
+});
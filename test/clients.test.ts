@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { AzureOpenAI } from "openai";
+import { shunt, registerClient } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+class Chat {
+  completions = {
+    create: async (params: object) => ({
+      object: "chat.completion",
+      choices: [],
+    }),
+  };
+}
+
+class OpenAI {
+  chat = new Chat();
+  embeddings = { create: async (params: object) => ({ data: [] }) };
+}
+
+describe("client detection", () => {
+  it("recognizes subclasses of registered clients", async () => {
+    const sink = new TestSink();
+    class TracedOpenAI extends OpenAI {}
+    const client = shunt(new TracedOpenAI(), sink);
+
+    await client.chat.completions.create({});
+
+    expect(sink.records[0].client).toBe("OpenAI");
+  });
+
+  it("recognizes clients by structure when names are minified", async () => {
+    const sink = new TestSink();
+    // What a bundler might leave of `class Anthropic`
+    const e = class {
+      messages = {
+        create: async (params: object) => ({ content: [] }),
+        stream: (params: object) => ({}),
+      };
+    };
+    const client = shunt(new e(), sink);
+
+    await client.messages.create({});
+
+    expect(sink.records[0].client).toBe("Anthropic");
+    expect(sink.records[0].method).toBe("messages.create");
+  });
+
+  it("distinguishes AzureOpenAI", async () => {
+    const sink = new TestSink();
+    const fetch = async () =>
+      new Response(JSON.stringify({ object: "chat.completion", choices: [] }), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      });
+    const client = shunt(
+      new AzureOpenAI({
+        apiKey: "test",
+        endpoint: "https://example.openai.azure.com",
+        apiVersion: "2024-10-21",
+        deployment: "gpt-4o",
+        maxRetries: 0,
+        fetch: fetch as never,
+      }),
+      sink,
+    );
+
+    await client.chat.completions.create({
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(sink.records[0].client).toBe("AzureOpenAI");
+  });
+});
+
+describe("registerClient", () => {
+  it("registers in-house clients with a detector and reducer", async () => {
+    const sink = new TestSink();
+    class Gateway {
+      complete = async (params: object) => ({
+        async *[Symbol.asyncIterator]() {
+          yield { piece: "Hel" };
+          yield { piece: "lo" };
+        },
+      });
+    }
+    // A wrapper built from a factory, so there is no class name to match
+    const gateway = Object.assign(Object.create(null), new Gateway(), {
+      kind: "llm-gateway",
+    });
+
+    registerClient({
+      name: "LLMGateway",
+      methods: ["complete", "embed"],
+      detect: (client) => (client as { kind?: string }).kind === "llm-gateway",
+      reducer: (chunks) => ({
+        text: (chunks as { piece: string }[]).map((c) => c.piece).join(""),
+      }),
+    });
+    const client = shunt(gateway as Gateway, sink);
+    for await (const _ of (await client.complete(
+      {},
+    )) as AsyncIterable<unknown>) {
+      // consume
+    }
+
+    expect(sink.records[0].client).toBe("LLMGateway");
+    expect(sink.records[0].reassembled).toEqual({ text: "Hello" });
+  });
+
+  it("matches registered names along the prototype chain", async () => {
+    const sink = new TestSink();
+    class BaseClient {
+      ask = async (question: string) => `re: ${question}`;
+    }
+    class TeamClient extends BaseClient {}
+    registerClient({ name: "BaseClient", methods: ["ask"] });
+
+    const client = shunt(new TeamClient(), sink);
+    expect(await client.ask("hi")).toBe("re: hi");
+
+    expect(sink.records[0].client).toBe("BaseClient");
+    expect(sink.records[0].request).toEqual({ args: ["hi"] });
+  });
+
+  it("drops the reducer of a replaced registration", async () => {
+    const sink = new TestSink();
+    class Relay {
+      complete = async (params: object) => ({
+        async *[Symbol.asyncIterator]() {
+          yield { piece: "Hi" };
+        },
+      });
+    }
+    registerClient({
+      name: "Relay",
+      methods: ["complete"],
+      reducer: () => ({ text: "stale" }),
+    });
+    registerClient({ name: "Relay", methods: ["complete"] });
+
+    const client = shunt(new Relay(), sink);
+    for await (const _ of (await client.complete(
+      {},
+    )) as AsyncIterable<unknown>) {
+      // consume
+    }
+
+    expect(sink.records[0].reassembled).toBeUndefined();
+  });
+});
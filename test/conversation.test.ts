@@ -0,0 +1,330 @@
+import { describe, it, expect } from "vitest";
+import { shunt, toConversation } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+const WEATHER = { city: "Paris" };
+
+/** The conversation every provider's version of the same exchange maps to. */
+const EXPECTED_MESSAGES = [
+  { role: "user", content: [{ type: "text", text: "Weather in Paris?" }] },
+  {
+    role: "assistant",
+    content: [
+      {
+        type: "tool_call",
+        id: "call_1",
+        name: "get_weather",
+        arguments: WEATHER,
+        parseError: null,
+      },
+    ],
+  },
+  {
+    role: "tool",
+    content: [
+      { type: "tool_result", id: "call_1", content: "Sunny", isError: false },
+    ],
+  },
+  { role: "assistant", content: [{ type: "text", text: "It is sunny." }] },
+];
+
+describe("toConversation", () => {
+  it("normalizes Anthropic messages", () => {
+    const conversation = toConversation(
+      {
+        model: "claude-sonnet-4-20250514",
+        max_tokens: 1024,
+        temperature: 0.2,
+        system: [{ type: "text", text: "Be brief." }],
+        messages: [
+          { role: "user", content: "Weather in Paris?" },
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "tool_use",
+                id: "call_1",
+                name: "get_weather",
+                input: WEATHER,
+              },
+            ],
+          },
+          {
+            role: "user",
+            content: [
+              { type: "tool_result", tool_use_id: "call_1", content: "Sunny" },
+            ],
+          },
+        ],
+      },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Easy." },
+          { type: "text", text: "It is sunny." },
+        ],
+      },
+    );
+
+    expect(conversation.model).toBe("claude-sonnet-4-20250514");
+    expect(conversation.system).toBe("Be brief.");
+    expect(conversation.parameters).toEqual({
+      temperature: 0.2,
+      topP: null,
+      topK: null,
+      maxTokens: 1024,
+      stop: null,
+      seed: null,
+    });
+    // Anthropic returns tool results in user messages
+    expect(conversation.messages[2].role).toBe("user");
+    expect(conversation.messages[3].content).toEqual([
+      { type: "thinking", text: "Easy." },
+      { type: "text", text: "It is sunny." },
+    ]);
+  });
+
+  it("normalizes OpenAI chat completions", () => {
+    const conversation = toConversation(
+      {
+        model: "gpt-4o",
+        max_completion_tokens: 100,
+        stop: "END",
+        messages: [
+          { role: "developer", content: "Be brief." },
+          {
+            role: "user",
+            content: [{ type: "text", text: "Weather in Paris?" }],
+          },
+          {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: {
+                  name: "get_weather",
+                  arguments: '{"city":"Paris"}',
+                },
+              },
+            ],
+          },
+          { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+        ],
+      },
+      {
+        choices: [{ message: { role: "assistant", content: "It is sunny." } }],
+      },
+    );
+
+    expect(conversation.system).toBe("Be brief.");
+    expect(conversation.messages).toEqual(EXPECTED_MESSAGES);
+    expect(conversation.parameters.maxTokens).toBe(100);
+    expect(conversation.parameters.stop).toEqual(["END"]);
+  });
+
+  it("normalizes the Responses API", () => {
+    const conversation = toConversation(
+      {
+        model: "gpt-4o",
+        instructions: "Be brief.",
+        input: [
+          { role: "user", content: "Weather in Paris?" },
+          {
+            type: "function_call",
+            call_id: "call_1",
+            name: "get_weather",
+            arguments: '{"city":"Paris"}',
+          },
+          { type: "function_call_output", call_id: "call_1", output: "Sunny" },
+        ],
+      },
+      {
+        output: [
+          {
+            type: "message",
+            role: "assistant",
+            content: [{ type: "output_text", text: "It is sunny." }],
+          },
+        ],
+      },
+    );
+
+    expect(conversation.system).toBe("Be brief.");
+    expect(conversation.messages).toEqual(EXPECTED_MESSAGES);
+  });
+
+  it("normalizes Gemini contents", () => {
+    const conversation = toConversation(
+      {
+        model: "gemini-2.5-flash",
+        contents: [
+          { role: "user", parts: [{ text: "Weather in Paris?" }] },
+          {
+            role: "model",
+            parts: [
+              {
+                functionCall: {
+                  id: "call_1",
+                  name: "get_weather",
+                  args: WEATHER,
+                },
+              },
+            ],
+          },
+          {
+            role: "user",
+            parts: [
+              {
+                functionResponse: {
+                  id: "call_1",
+                  name: "get_weather",
+                  response: { output: "Sunny" },
+                },
+              },
+            ],
+          },
+        ],
+        config: {
+          systemInstruction: "Be brief.",
+          temperature: 0,
+          maxOutputTokens: 50,
+        },
+      },
+      {
+        candidates: [
+          { content: { role: "model", parts: [{ text: "It is sunny." }] } },
+        ],
+      },
+    );
+
+    expect(conversation.system).toBe("Be brief.");
+    expect(conversation.messages.map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+      "assistant",
+    ]);
+    expect(conversation.messages[2].content).toEqual([
+      {
+        type: "tool_result",
+        id: "call_1",
+        content: { output: "Sunny" },
+        isError: false,
+      },
+    ]);
+    expect(conversation.parameters).toMatchObject({
+      temperature: 0,
+      maxTokens: 50,
+    });
+  });
+
+  it("normalizes Ollama and pi-ai messages", () => {
+    const ollama = toConversation(
+      {
+        model: "llama3",
+        messages: [
+          { role: "system", content: "Be brief." },
+          { role: "user", content: "What is this?", images: ["iVBORw0..."] },
+        ],
+        options: { temperature: 0.5, num_predict: 64, seed: 7 },
+      },
+      {
+        message: { role: "assistant", content: "A cat.", thinking: "Hmm." },
+      },
+    );
+    expect(ollama.system).toBe("Be brief.");
+    expect(ollama.messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "image", url: null, mimeType: null },
+        ],
+      },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", text: "Hmm." },
+          { type: "text", text: "A cat." },
+        ],
+      },
+    ]);
+    expect(ollama.parameters).toMatchObject({
+      temperature: 0.5,
+      maxTokens: 64,
+      seed: 7,
+    });
+
+    const piAi = toConversation(
+      {
+        systemPrompt: "Be brief.",
+        messages: [
+          { role: "user", content: "Weather in Paris?" },
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "toolCall",
+                id: "call_1",
+                name: "get_weather",
+                arguments: WEATHER,
+              },
+            ],
+          },
+          {
+            role: "toolResult",
+            toolCallId: "call_1",
+            toolName: "get_weather",
+            content: "Sunny",
+            isError: false,
+          },
+        ],
+      },
+      { role: "assistant", content: [{ type: "text", text: "It is sunny." }] },
+    );
+    expect(piAi.system).toBe("Be brief.");
+    expect(piAi.messages).toEqual(EXPECTED_MESSAGES);
+  });
+});
+
+describe("record conversation", () => {
+  class Messages {
+    create = async (params: object) => ({
+      role: "assistant",
+      content: [{ type: "text", text: "Hi!" }],
+    });
+    stream = () => ({});
+  }
+  class Anthropic {
+    messages = new Messages();
+  }
+
+  it("is attached when enabled, alongside the native payloads", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, { conversation: true });
+    const request = {
+      model: "claude-sonnet-4-20250514",
+      messages: [{ role: "user", content: "Hello" }],
+    };
+
+    await client.messages.create(request);
+
+    const record = sink.records[0].toJSON();
+    expect(record.request).toEqual(request);
+    expect(record.conversation?.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+      { role: "assistant", content: [{ type: "text", text: "Hi!" }] },
+    ]);
+  });
+
+  it("is absent by default", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink);
+
+    await client.messages.create({ messages: [] });
+
+    expect("conversation" in sink.records[0].toJSON()).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import { shunt, describeError } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+// Shaped like the Anthropic and OpenAI SDK errors, which do not set `name`
+class APIError extends Error {
+  constructor(
+    readonly status: number | undefined,
+    readonly error: object | undefined,
+    message: string,
+    readonly headers: Record<string, string> | Headers | undefined,
+  ) {
+    super(message);
+  }
+}
+class RateLimitError extends APIError {}
+class InternalServerError extends APIError {}
+class BadRequestError extends APIError {
+  code: string | null = null;
+}
+class APIConnectionTimeoutError extends APIError {}
+
+describe("describeError", () => {
+  it("extracts Anthropic status, request id, headers, and body", () => {
+    const err = Object.assign(
+      new RateLimitError(
+        429,
+        { type: "error", error: { type: "rate_limit_error", message: "slow" } },
+        "429 slow",
+        { "retry-after": "30", "request-id": "req_1", "content-type": "json" },
+      ),
+      { request_id: "req_1" },
+    );
+
+    const detail = describeError(err);
+
+    expect(detail).toMatchObject({
+      name: "RateLimitError",
+      message: "429 slow",
+      category: "rate_limit",
+      status: 429,
+      code: "rate_limit_error",
+      requestId: "req_1",
+      headers: { "retry-after": "30", "request-id": "req_1" },
+      body: { error: { type: "rate_limit_error" } },
+    });
+    expect(detail.stack).toContain("429 slow");
+  });
+
+  it("categorizes Anthropic overloaded errors", () => {
+    const err = new InternalServerError(
+      529,
+      { type: "error", error: { type: "overloaded_error" } },
+      "529 Overloaded",
+      {},
+    );
+    expect(describeError(err).category).toBe("overloaded");
+  });
+
+  it("reads OpenAI codes and Headers instances", () => {
+    const err = Object.assign(
+      new BadRequestError(
+        400,
+        { code: "context_length_exceeded" },
+        "400 This model's maximum context length is 128000 tokens",
+        new Headers({ "x-request-id": "req_2", "x-ratelimit-remaining": "9" }),
+      ),
+      { code: "context_length_exceeded", requestID: "req_2" },
+    );
+
+    expect(describeError(err)).toMatchObject({
+      category: "context_length_exceeded",
+      code: "context_length_exceeded",
+      requestId: "req_2",
+      headers: { "x-request-id": "req_2", "x-ratelimit-remaining": "9" },
+    });
+  });
+
+  it("parses Google error bodies from the message", () => {
+    const err = Object.assign(
+      new Error(
+        JSON.stringify({
+          error: { code: 429, message: "quota", status: "RESOURCE_EXHAUSTED" },
+        }),
+      ),
+      { name: "ApiError", status: 429 },
+    );
+
+    expect(describeError(err)).toMatchObject({
+      name: "ApiError",
+      category: "rate_limit",
+      code: "RESOURCE_EXHAUSTED",
+      body: { error: { message: "quota" } },
+    });
+  });
+
+  it("reads Ollama status codes", () => {
+    const err = Object.assign(new Error("model not found"), {
+      name: "ResponseError",
+      error: "model not found",
+      status_code: 404,
+    });
+
+    expect(describeError(err)).toMatchObject({
+      status: 404,
+      body: "model not found",
+      category: "invalid_request",
+    });
+  });
+
+  it("categorizes timeouts, network failures, aborts, and auth", () => {
+    const timeout = new APIConnectionTimeoutError(
+      undefined,
+      undefined,
+      "Request timed out.",
+      undefined,
+    );
+    const network = Object.assign(new TypeError("fetch failed"), {
+      cause: { code: "ECONNREFUSED" },
+    });
+    const abort = Object.assign(new Error("aborted"), { name: "AbortError" });
+    const auth = new APIError(401, {}, "401 invalid x-api-key", {});
+
+    expect(describeError(timeout).category).toBe("timeout");
+    expect(describeError(network)).toMatchObject({
+      category: "network",
+      code: "ECONNREFUSED",
+    });
+    expect(describeError(abort).category).toBe("aborted");
+    expect(describeError(auth).category).toBe("auth");
+    expect(describeError(new Error("?")).category).toBe("unknown");
+  });
+});
+
+describe("record errorDetail", () => {
+  it("is recorded alongside the error string", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(async function complete() {
+      throw new RateLimitError(429, { error: {} }, "429 slow", {
+        "retry-after": "1",
+      });
+    }, sink);
+
+    await expect(wrapped()).rejects.toThrow("429 slow");
+
+    const record = sink.records[0];
+    expect(record.error).toBe("Error: 429 slow");
+    expect(record.errorDetail).toMatchObject({
+      name: "RateLimitError",
+      category: "rate_limit",
+      status: 429,
+      headers: { "retry-after": "1" },
+    });
+    expect(record.toJSON().errorDetail).toEqual(record.errorDetail);
+  });
+
+  it("is null on success", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(async function complete() {
+      return { ok: true };
+    }, sink);
+    await wrapped();
+
+    expect(sink.records[0].errorDetail).toBeNull();
+  });
+
+  it("is redacted", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(
+      async function complete() {
+        throw new APIError(
+          400,
+          { error: { message: "bad key sk-ant-REDACTED" } },
+          "400 bad request",
+          {},
+        );
+      },
+      sink,
+      { redact: {} },
+    );
+
+    await expect(wrapped()).rejects.toThrow();
+
+    expect(sink.records[0].redacted).toEqual([
+      "errorDetail.body.error.message",
+    ]);
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect } from "vitest";
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import { shunt } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+/**
+ * A fetch that answers every request with the given server-sent events.
+ */
+function sseFetch(events: { event?: string; data: unknown }[]) {
+  return async () => {
+    const body = events
+      .map(
+        ({ event, data }) =>
+          (event ? `event: ${event}\n` : "") +
+          `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`,
+      )
+      .join("");
+    return new Response(body, {
+      status: 200,
+      headers: { "content-type": "text/event-stream", "request-id": "req_1" },
+    });
+  };
+}
+
+function failingFetch() {
+  return async () =>
+    new Response(
+      JSON.stringify({
+        type: "error",
+        error: { type: "invalid_request_error" },
+      }),
+      { status: 400, headers: { "content-type": "application/json" } },
+    );
+}
+
+const ANTHROPIC_EVENTS = [
+  {
+    event: "message_start",
+    data: {
+      type: "message_start",
+      message: {
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: "claude-test",
+        content: [],
+        stop_reason: null,
+        usage: { input_tokens: 5, output_tokens: 0 },
+      },
+    },
+  },
+  {
+    event: "content_block_start",
+    data: {
+      type: "content_block_start",
+      index: 0,
+      content_block: { type: "text", text: "" },
+    },
+  },
+  {
+    event: "content_block_delta",
+    data: {
+      type: "content_block_delta",
+      index: 0,
+      delta: { type: "text_delta", text: "po" },
+    },
+  },
+  {
+    event: "content_block_delta",
+    data: {
+      type: "content_block_delta",
+      index: 0,
+      delta: { type: "text_delta", text: "ng" },
+    },
+  },
+  {
+    event: "content_block_stop",
+    data: { type: "content_block_stop", index: 0 },
+  },
+  {
+    event: "message_delta",
+    data: {
+      type: "message_delta",
+      delta: { stop_reason: "end_turn" },
+      usage: { output_tokens: 2 },
+    },
+  },
+  { event: "message_stop", data: { type: "message_stop" } },
+];
+
+const PARAMS = {
+  model: "claude-test",
+  max_tokens: 16,
+  messages: [{ role: "user" as const, content: "ping" }],
+};
+
+function anthropic(fetch: () => Promise<Response>): Anthropic {
+  return new Anthropic({
+    apiKey: "test",
+    fetch: fetch as never,
+    maxRetries: 0,
+  });
+}
+
+describe("Anthropic MessageStream", () => {
+  it("records once when consumed with finalMessage()", async () => {
+    const sink = new TestSink();
+    const client = shunt(anthropic(sseFetch(ANTHROPIC_EVENTS)), sink);
+
+    const message = await client.messages.stream(PARAMS).finalMessage();
+
+    expect(message.content).toEqual([
+      { type: "text", text: "pong", citations: undefined },
+    ]);
+    expect(sink.records).toHaveLength(1);
+    const record = sink.records[0];
+    expect(record.method).toBe("messages.stream");
+    expect(record.error).toBeNull();
+    expect(record.response).toHaveLength(7);
+    expect(record.reassembled).toMatchObject({
+      content: [{ type: "text", text: "pong" }],
+      stop_reason: "end_turn",
+    });
+    expect(record.streamTiming?.chunkCount).toBe(7);
+    expect(record.usage?.outputTokens).toBe(2);
+  });
+
+  it("records once when consumed with events", async () => {
+    const sink = new TestSink();
+    const client = shunt(anthropic(sseFetch(ANTHROPIC_EVENTS)), sink);
+
+    let text = "";
+    const stream = client.messages.stream(PARAMS);
+    stream.on("text", (delta) => {
+      text += delta;
+    });
+    await new Promise((resolve) => stream.on("end", resolve));
+
+    expect(text).toBe("pong");
+    expect(sink.records).toHaveLength(1);
+  });
+
+  it("records once when iterated", async () => {
+    const sink = new TestSink();
+    const client = shunt(anthropic(sseFetch(ANTHROPIC_EVENTS)), sink);
+
+    let count = 0;
+    for await (const _ of client.messages.stream(PARAMS)) {
+      count++;
+    }
+
+    expect(count).toBe(7);
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].response).toHaveLength(7);
+  });
+
+  it("records errors", async () => {
+    const sink = new TestSink();
+    const client = shunt(anthropic(failingFetch()), sink);
+
+    await expect(client.messages.stream(PARAMS).finalText()).rejects.toThrow();
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].errorDetail).toMatchObject({
+      status: 400,
+      category: "invalid_request",
+    });
+  });
+
+  it("records aborts", async () => {
+    const sink = new TestSink();
+    const client = shunt(anthropic(sseFetch(ANTHROPIC_EVENTS)), sink);
+
+    const stream = client.messages.stream(PARAMS);
+    stream.abort();
+    await expect(stream.done()).rejects.toThrow();
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].errorDetail?.category).toBe("aborted");
+  });
+
+  it("records calls made from the stream's listeners", async () => {
+    const sink = new TestSink();
+    const client = shunt(anthropic(sseFetch(ANTHROPIC_EVENTS)), sink);
+
+    const followUp = new Promise((resolve) =>
+      client.messages
+        .stream(PARAMS)
+        .on("message", () =>
+          resolve(client.messages.create({ ...PARAMS, stream: true })),
+        ),
+    );
+    const stream = (await followUp) as AsyncIterable<unknown>;
+    for await (const _ of stream) {
+      // consume
+    }
+
+    expect(sink.records.map((r) => r.method)).toEqual([
+      "messages.stream",
+      "messages.create",
+    ]);
+  });
+
+  it("records events that cannot be copied", async () => {
+    const sink = new TestSink();
+    const failures: unknown[] = [];
+    const client = shunt(anthropic(sseFetch(ANTHROPIC_EVENTS)), sink, {
+      onSinkError: (error) => failures.push(error),
+    });
+
+    const stream = client.messages.stream(PARAMS);
+    (stream as unknown as { _emit: (...args: unknown[]) => void })._emit(
+      "streamEvent",
+      { type: "ping", callback: function callback() {} },
+    );
+    await stream.finalMessage();
+
+    expect(failures).toHaveLength(1);
+    expect((failures[0] as Error).name).toBe("DataCloneError");
+    expect((sink.records[0].response as unknown[])[0]).toEqual({
+      type: "ping",
+      callback: "[Function: callback]",
+    });
+  });
+
+  it("still records direct messages.create calls", async () => {
+    const sink = new TestSink();
+    const client = shunt(anthropic(sseFetch(ANTHROPIC_EVENTS)), sink);
+
+    const stream = await client.messages.create({ ...PARAMS, stream: true });
+    for await (const _ of stream) {
+      // consume
+    }
+
+    expect(sink.records.map((r) => r.method)).toEqual(["messages.create"]);
+  });
+});
+
+describe("OpenAI ChatCompletionStream", () => {
+  const chunk = (delta: object, finish: string | null = null) => ({
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 1,
+    model: "gpt-test",
+    choices: [{ index: 0, delta, finish_reason: finish }],
+  });
+
+  it("records once when consumed with finalChatCompletion()", async () => {
+    const sink = new TestSink();
+    const openai = new OpenAI({
+      apiKey: "test",
+      maxRetries: 0,
+      fetch: sseFetch([
+        { data: chunk({ role: "assistant", content: "po" }) },
+        { data: chunk({ content: "ng" }) },
+        { data: chunk({}, "stop") },
+        { data: "[DONE]" },
+      ]) as never,
+    });
+    const client = shunt(openai, sink);
+
+    const completion = await client.chat.completions
+      .stream({
+        model: "gpt-test",
+        messages: [{ role: "user", content: "hi" }],
+      })
+      .finalChatCompletion();
+
+    expect(completion.choices[0].message.content).toBe("pong");
+    expect(sink.records).toHaveLength(1);
+    const record = sink.records[0];
+    expect(record.method).toBe("chat.completions.stream");
+    expect(record.response).toHaveLength(3);
+    expect(record.reassembled).toMatchObject({
+      choices: [{ message: { content: "pong" }, finish_reason: "stop" }],
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from "vitest";
+import OpenAI from "openai";
+import { shuntFetch, unshunt } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+const COMPLETION = {
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  model: "gpt-test",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "Hello" },
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+};
+
+function chunk(content: string, finish: string | null = null) {
+  return {
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    model: "gpt-test",
+    choices: [{ index: 0, delta: { content }, finish_reason: finish }],
+  };
+}
+
+/**
+ * A fetch serving the given responses in turn, keeping the requests made.
+ */
+function fakeFetch(...responses: (() => Response)[]) {
+  const requests: Request[] = [];
+  const fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    return responses[Math.min(requests.length, responses.length) - 1]();
+  };
+  return Object.assign(fetch, { requests });
+}
+
+function json(body: unknown, status = 200, headers: object = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+describe("shuntFetch", () => {
+  it("records JSON exchanges while the caller reads the body", async () => {
+    const sink = new TestSink();
+    const fetch = shuntFetch(
+      fakeFetch(() => json(COMPLETION, 200, { "x-request-id": "req_1" })),
+      sink,
+    );
+    const client = new OpenAI({ apiKey: "test", fetch });
+
+    const completion = await client.chat.completions.create({
+      model: "gpt-test",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    // The body is read for the record after the caller has it
+    await vi.waitFor(() => expect(sink.records).toHaveLength(1));
+
+    expect(completion.choices[0].message.content).toBe("Hello");
+    expect(sink.records).toHaveLength(1);
+    const record = sink.records[0].toJSON();
+    expect(record.client).toBe("OpenAI");
+    expect(record.method).toBe("POST /v1/chat/completions");
+    expect(record.request).toEqual({
+      model: "gpt-test",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    expect(record.response).toEqual(COMPLETION);
+    expect(record.usage).toMatchObject({ inputTokens: 5, outputTokens: 1 });
+    expect(record.http).toEqual({
+      method: "POST",
+      url: "https://api.openai.com/v1/chat/completions",
+      status: 200,
+      headers: {
+        "content-type": "application/json",
+        "x-request-id": "req_1",
+      },
+      attempt: 0,
+    });
+  });
+
+  it("records server-sent event streams without consuming them", async () => {
+    const sink = new TestSink();
+    const events = [chunk("Hel"), chunk("lo", "stop")];
+    const body =
+      events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") +
+      "data: [DONE]\n\n";
+    const fetch = shuntFetch(
+      fakeFetch(
+        () =>
+          new Response(body, {
+            headers: { "content-type": "text/event-stream" },
+          }),
+      ),
+      sink,
+    );
+    const client = new OpenAI({ apiKey: "test", fetch });
+
+    const stream = await client.chat.completions.create({
+      model: "gpt-test",
+      messages: [{ role: "user", content: "Hi" }],
+      stream: true,
+    });
+    let text = "";
+    for await (const part of stream) {
+      text += part.choices[0].delta.content ?? "";
+    }
+    await vi.waitFor(() => expect(sink.records).toHaveLength(1));
+
+    expect(text).toBe("Hello");
+    const record = sink.records[0].toJSON();
+    expect(record.status).toBe("ok");
+    expect(record.response).toEqual(events);
+    expect(record.reassembled).toMatchObject({
+      choices: [{ message: { role: "assistant", content: "Hello" } }],
+    });
+    expect(record.streamTiming?.chunkCount).toBe(2);
+  });
+
+  it("records each retry attempt", async () => {
+    const sink = new TestSink();
+    const fetch = shuntFetch(
+      fakeFetch(
+        () =>
+          json(
+            { error: { type: "rate_limit_error", message: "Slow down" } },
+            429,
+            { "retry-after-ms": "1" },
+          ),
+        () => json(COMPLETION),
+      ),
+      sink,
+    );
+    const client = new OpenAI({ apiKey: "test", maxRetries: 1, fetch });
+
+    await client.chat.completions.create({
+      model: "gpt-test",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    await vi.waitFor(() => expect(sink.records).toHaveLength(2));
+
+    expect(sink.records.map((r) => [r.http?.attempt, r.http?.status])).toEqual([
+      [0, 429],
+      [1, 200],
+    ]);
+    const failed = sink.records[0];
+    expect(failed.status).toBe("error");
+    expect(failed.error).toBe("HttpError: 429");
+    expect(failed.errorDetail).toMatchObject({
+      category: "rate_limit",
+      status: 429,
+      headers: { "retry-after-ms": "1" },
+    });
+    expect(failed.http?.headers["retry-after-ms"]).toBe("1");
+  });
+
+  it("passes unmatched requests through and follows match rules", async () => {
+    const sink = new TestSink();
+    const inner = fakeFetch(() => json({ ok: true }));
+    const fetch = shuntFetch(inner, sink, {
+      match: [{ host: "llm.internal", path: "/v1/", client: "Gateway" }],
+    });
+
+    await fetch("https://example.com/v1/chat");
+    await fetch("https://llm.internal/health");
+    const response = await fetch("https://llm.internal/v1/chat?key=secret", {
+      method: "POST",
+      body: JSON.stringify({ prompt: "Hi" }),
+    });
+    await vi.waitFor(() => expect(sink.records).toHaveLength(1));
+
+    expect(await response.json()).toEqual({ ok: true });
+    expect(inner.requests).toHaveLength(3);
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].client).toBe("Gateway");
+    expect(sink.records[0].request).toEqual({ prompt: "Hi" });
+    expect(sink.records[0].http?.url).toBe("https://llm.internal/v1/chat");
+    expect(sink.records[0].http?.attempt).toBeNull();
+  });
+
+  it("records network failures and stops recording when unshunted", async () => {
+    const sink = new TestSink();
+    const inner = async (): Promise<Response> => {
+      throw new TypeError("fetch failed");
+    };
+    const fetch = shuntFetch(inner, sink);
+
+    await expect(
+      fetch("https://api.anthropic.com/v1/messages"),
+    ).rejects.toThrow("fetch failed");
+    expect(sink.records[0].client).toBe("Anthropic");
+    expect(sink.records[0].errorDetail?.category).toBe("network");
+    expect(sink.records[0].http?.status).toBeNull();
+
+    expect(unshunt(fetch)).toBe(inner);
+    await expect(
+      fetch("https://api.anthropic.com/v1/messages"),
+    ).rejects.toThrow();
+    expect(sink.records).toHaveLength(1);
+  });
+});
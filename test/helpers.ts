@@ -0,0 +1,14 @@
+import { ShuntlyRecord, Sink } from "../src/index.js";
+
+/**
+ * A sink that keeps the records written to it, for assertions.
+ */
+export class TestSink implements Sink {
+  records: ShuntlyRecord[] = [];
+
+  write(record: ShuntlyRecord): void {
+    this.records.push(record);
+  }
+
+  close(): void {}
+}
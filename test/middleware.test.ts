@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { shunt, CallContext } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+class MockMessages {
+  async create(params: { text: string }) {
+    return { content: [{ type: "text", text: params.text }] };
+  }
+}
+
+class Anthropic {
+  messages = new MockMessages();
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("middleware", () => {
+  it("runs hooks around the call and the write", async () => {
+    const sink = new TestSink();
+    const events: string[] = [];
+    const calls: CallContext[] = [];
+    const client = shunt(new Anthropic(), sink, {
+      middleware: [
+        {
+          onRequest: (call) => {
+            calls.push(call);
+            events.push("request");
+          },
+          beforeWrite: () => {
+            events.push(`beforeWrite:${sink.records.length}`);
+          },
+          onResponse: () => {
+            events.push(`response:${sink.records.length}`);
+          },
+        },
+      ],
+    });
+
+    await client.messages.create({ text: "hi" });
+
+    expect(events).toEqual(["request", "beforeWrite:0", "response:1"]);
+    expect(calls).toEqual([
+      {
+        client: "Anthropic",
+        method: "messages.create",
+        request: { text: "hi" },
+      },
+    ]);
+  });
+
+  it("enriches, rewrites, and drops records in order", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, {
+      middleware: [
+        {
+          beforeWrite: (record) =>
+            record.request.text === "drop" ? null : undefined,
+        },
+        {
+          beforeWrite: async (record) => {
+            await tick();
+            return record.with({ metadata: { team: "search" } });
+          },
+        },
+        {
+          beforeWrite: (record) =>
+            record.with({ request: { text: "[rewritten]" } }),
+        },
+      ],
+    });
+
+    await client.messages.create({ text: "drop" });
+    await client.messages.create({ text: "keep" });
+    await tick();
+
+    expect(sink.records).toHaveLength(1);
+    const record = sink.records[0].toJSON();
+    expect(record.request).toEqual({ text: "[rewritten]" });
+    expect(record.metadata).toEqual({ team: "search" });
+    expect(record.response).toEqual({
+      content: [{ type: "text", text: "keep" }],
+    });
+  });
+
+  it("isolates failing hooks from the call and the record", async () => {
+    const sink = new TestSink();
+    const errors: string[] = [];
+    const onError = (error: unknown, hook: string) =>
+      errors.push(`${hook}: ${(error as Error).message}`);
+    const client = shunt(new Anthropic(), sink, {
+      middleware: [
+        {
+          onRequest: () => {
+            throw new Error("request broke");
+          },
+          beforeWrite: async () => {
+            throw new Error("transform broke");
+          },
+          onResponse: async () => {
+            throw new Error("response broke");
+          },
+          onError,
+        },
+        {
+          beforeWrite: (record) => record.with({ metadata: { ok: true } }),
+        },
+      ],
+    });
+
+    const response = await client.messages.create({ text: "hi" });
+    await tick();
+
+    expect(response.content[0].text).toBe("hi");
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].metadata).toEqual({ ok: true });
+    expect(errors).toEqual([
+      "onRequest: request broke",
+      "beforeWrite: transform broke",
+      "onResponse: response broke",
+    ]);
+  });
+
+  it("does not wait for async onRequest hooks", async () => {
+    const sink = new TestSink();
+    let release: () => void = () => {};
+    const client = shunt(new Anthropic(), sink, {
+      middleware: [
+        { onRequest: () => new Promise<void>((r) => (release = r)) },
+      ],
+    });
+
+    await client.messages.create({ text: "hi" });
+
+    expect(sink.records).toHaveLength(1);
+    release();
+  });
+});
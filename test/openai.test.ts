@@ -0,0 +1,305 @@
+import { describe, it, expect } from "vitest";
+import { File as BufferFile } from "buffer";
+import OpenAI, { toFile } from "openai";
+import { shunt } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+// Node 18 has File only in the buffer module, where toFile() needs it global
+globalThis.File ??= BufferFile as typeof File;
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function sse(events: unknown[]): Response {
+  const body = events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("");
+  return new Response(body + "data: [DONE]\n\n", {
+    status: 200,
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+const RESPONSE = {
+  id: "resp_1",
+  object: "response",
+  status: "completed",
+  model: "gpt-test",
+  output: [
+    {
+      type: "message",
+      id: "msg_1",
+      role: "assistant",
+      status: "completed",
+      content: [
+        { type: "output_text", text: '{"answer":42}', annotations: [] },
+      ],
+    },
+  ],
+  usage: {
+    input_tokens: 5,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: 3,
+    output_tokens_details: { reasoning_tokens: 0 },
+    total_tokens: 8,
+  },
+};
+
+const RESPONSE_EVENTS = [
+  {
+    type: "response.created",
+    sequence_number: 0,
+    response: { ...RESPONSE, status: "in_progress", output: [] },
+  },
+  {
+    type: "response.output_item.added",
+    sequence_number: 1,
+    output_index: 0,
+    item: { ...RESPONSE.output[0], status: "in_progress", content: [] },
+  },
+  {
+    type: "response.content_part.added",
+    sequence_number: 2,
+    output_index: 0,
+    content_index: 0,
+    item_id: "msg_1",
+    part: { type: "output_text", text: "", annotations: [] },
+  },
+  {
+    type: "response.output_text.delta",
+    sequence_number: 3,
+    output_index: 0,
+    content_index: 0,
+    item_id: "msg_1",
+    delta: '{"answer":42}',
+  },
+  {
+    type: "response.output_item.done",
+    sequence_number: 4,
+    output_index: 0,
+    item: RESPONSE.output[0],
+  },
+  { type: "response.completed", sequence_number: 5, response: RESPONSE },
+];
+
+const COMPLETION = {
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 1,
+  model: "gpt-test",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: '{"answer":42}', refusal: null },
+      finish_reason: "stop",
+      logprobs: null,
+    },
+  ],
+};
+
+/**
+ * An OpenAI client whose requests are answered locally, by path.
+ */
+function openai(): OpenAI {
+  const fetch = async (url: string | URL, init?: RequestInit) => {
+    const pathname = new URL(String(url)).pathname;
+    const body =
+      typeof init?.body === "string" ? JSON.parse(init.body) : undefined;
+    switch (pathname) {
+      case "/v1/responses":
+        return body?.stream ? sse(RESPONSE_EVENTS) : json(RESPONSE);
+      case "/v1/chat/completions":
+        return json(COMPLETION);
+      case "/v1/embeddings":
+        return json({
+          object: "list",
+          data: [{ object: "embedding", index: 0, embedding: [0.1, 0.2] }],
+          model: "text-embedding-3-small",
+          usage: { prompt_tokens: 2, total_tokens: 2 },
+        });
+      case "/v1/completions":
+        return json({
+          id: "cmpl-1",
+          object: "text_completion",
+          choices: [{ index: 0, text: "Hello", finish_reason: "stop" }],
+        });
+      case "/v1/images/generations":
+        return json({ created: 1, data: [{ b64_json: "aGVsbG8=" }] });
+      case "/v1/audio/transcriptions":
+        return json({ text: "hello world" });
+    }
+    return new Response("not found", { status: 404 });
+  };
+  return new OpenAI({ apiKey: "test", maxRetries: 0, fetch: fetch as never });
+}
+
+describe("OpenAI surfaces", () => {
+  it("records responses.create", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    const response = await client.responses.create({
+      model: "gpt-test",
+      input: "What is the answer?",
+    });
+
+    expect(response.output_text).toBe('{"answer":42}');
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].method).toBe("responses.create");
+    expect(sink.records[0].usage).toMatchObject({
+      inputTokens: 5,
+      outputTokens: 3,
+      totalTokens: 8,
+    });
+  });
+
+  it("reassembles streamed responses", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    const stream = await client.responses.create({
+      model: "gpt-test",
+      input: "What is the answer?",
+      stream: true,
+    });
+    for await (const _ of stream) {
+      // consume
+    }
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].reassembled).toEqual(RESPONSE);
+    expect(sink.records[0].usage?.totalTokens).toBe(8);
+  });
+
+  it("records responses.stream once", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    const response = await client.responses
+      .stream({ model: "gpt-test", input: "What is the answer?" })
+      .finalResponse();
+
+    expect(response.id).toBe("resp_1");
+    expect(sink.records.map((r) => r.method)).toEqual(["responses.stream"]);
+    expect(sink.records[0].response).toHaveLength(RESPONSE_EVENTS.length);
+    expect(sink.records[0].reassembled).toEqual(RESPONSE);
+  });
+
+  it("records chat.completions.parse once", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    const parsed = await client.chat.completions.parse({
+      model: "gpt-test",
+      messages: [{ role: "user", content: "What is the answer?" }],
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "answer", schema: { type: "object" } },
+      },
+    });
+
+    expect(parsed.choices[0].message.parsed).toEqual({ answer: 42 });
+    expect(sink.records.map((r) => r.method)).toEqual([
+      "chat.completions.parse",
+    ]);
+  });
+
+  it("keeps SDK promise helpers on recorded calls", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    const { data, response } = await client.chat.completions
+      .create({
+        model: "gpt-test",
+        messages: [{ role: "user", content: "hi" }],
+      })
+      .withResponse();
+
+    expect(data.id).toBe("chatcmpl-1");
+    expect(response.status).toBe(200);
+    expect(sink.records).toHaveLength(1);
+  });
+
+  it("leaves the body unread for asResponse()", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    const response = await client.chat.completions
+      .create({
+        model: "gpt-test",
+        messages: [{ role: "user", content: "hi" }],
+      })
+      .asResponse();
+
+    // Unparsed by the SDK, so there is no response to record
+    expect(JSON.parse(await response.text()).id).toBe("chatcmpl-1");
+    expect(sink.records).toHaveLength(0);
+  });
+
+  it("records embeddings, completions, and images", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    await client.embeddings.create({
+      model: "text-embedding-3-small",
+      input: "hello",
+    });
+    await client.completions.create({
+      model: "gpt-3.5-turbo-instruct",
+      prompt: "Say hello",
+    });
+    const images = await client.images.generate({
+      model: "gpt-image-1",
+      prompt: "a cat",
+    });
+
+    expect(images.data?.[0].b64_json).toBe("aGVsbG8=");
+    expect(sink.records.map((r) => r.method)).toEqual([
+      "embeddings.create",
+      "completions.create",
+      "images.generate",
+    ]);
+    expect(sink.records[0].usage?.inputTokens).toBe(2);
+    // Base64 image data is described rather than logged
+    const imageRecord = sink.records[2].toJSON();
+    expect(imageRecord.response).toEqual({
+      created: 1,
+      data: [{ b64_json: { type: "binary", kind: "base64", bytes: 5 } }],
+    });
+  });
+
+  it("describes uploaded audio files", async () => {
+    const sink = new TestSink();
+    const client = shunt(openai(), sink);
+
+    const transcription = await client.audio.transcriptions.create({
+      model: "whisper-1",
+      file: await toFile(Buffer.from("RIFF...."), "speech.wav", {
+        type: "audio/wav",
+      }),
+    });
+
+    expect(transcription.text).toBe("hello world");
+    const record = sink.records[0].toJSON();
+    expect(record.method).toBe("audio.transcriptions.create");
+    expect(record.request.file).toEqual({
+      type: "binary",
+      kind: "File",
+      bytes: 8,
+      name: "speech.wav",
+      mimeType: "audio/wav",
+    });
+    expect(JSON.parse(sink.records[0].toJSONString()).request.model).toBe(
+      "whisper-1",
+    );
+  });
+
+  it("skips registered methods missing from the SDK version", () => {
+    // beta.chat.completions moved to chat.completions in openai v5
+    const client = openai();
+    expect("chat" in (client.beta as object)).toBe(false);
+    expect(() => shunt(client, new TestSink())).not.toThrow();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import OpenAI from "openai";
+import { shunt, unshunt } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+class Messages {
+  #calls = 0;
+
+  async create(params: { text: string }) {
+    this.#calls++;
+    return { content: [{ type: "text", text: params.text }], n: this.#calls };
+  }
+
+  async stream(params: object) {
+    return {};
+  }
+}
+
+class Anthropic {
+  #messages: Messages | null = null;
+
+  // Created on first access, after any in-place patching would have run
+  get messages(): Messages {
+    this.#messages ??= new Messages();
+    return this.#messages;
+  }
+}
+
+function openai(): OpenAI {
+  const fetch = async () =>
+    new Response(
+      JSON.stringify({ id: "chatcmpl-1", object: "chat.completion" }),
+      { status: 200, headers: { "content-type": "application/json" } },
+    );
+  return new OpenAI({ apiKey: "test", maxRetries: 0, fetch: fetch as never });
+}
+
+describe("proxy mode", () => {
+  it("records through the proxy and leaves the client untouched", async () => {
+    const sink = new TestSink();
+    const client = new Anthropic();
+    const proxy = shunt(client, sink, { proxy: true });
+
+    expect(proxy).not.toBe(client);
+    expect(proxy).toBeInstanceOf(Anthropic);
+    const response = await proxy.messages.create({ text: "hi" });
+    expect(response.content[0].text).toBe("hi");
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].client).toBe("Anthropic");
+    expect(sink.records[0].method).toBe("messages.create");
+
+    // Calls on the client itself are not recorded
+    await client.messages.create({ text: "direct" });
+    expect(sink.records).toHaveLength(1);
+    expect(client.messages.create).toBe(Messages.prototype.create);
+  });
+
+  it("returns classes unbound", () => {
+    const client = Object.assign(new Anthropic(), { Messages });
+    const proxy = shunt(client, new TestSink(), { proxy: true });
+
+    expect(proxy.constructor).toBe(Anthropic);
+    const Constructor = proxy.constructor as typeof Anthropic;
+    expect(new Constructor()).toBeInstanceOf(Anthropic);
+    expect(new proxy.Messages()).toBeInstanceOf(Messages);
+  });
+
+  it("keeps method identity stable across accesses", () => {
+    const proxy = shunt(new Anthropic(), new TestSink(), { proxy: true });
+    expect(proxy.messages).toBe(proxy.messages);
+    expect(proxy.messages.create).toBe(proxy.messages.create);
+  });
+
+  it("follows clients cloned with withOptions()", async () => {
+    const sink = new TestSink();
+    const proxy = shunt(openai(), sink, { proxy: true });
+
+    const clone = proxy.withOptions({ timeout: 1000 });
+    expect(clone).toBeInstanceOf(OpenAI);
+    await clone.chat.completions.create({
+      model: "gpt-test",
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].client).toBe("OpenAI");
+    expect(sink.records[0].method).toBe("chat.completions.create");
+  });
+
+  it("keeps SDK promise helpers and records helpers once", async () => {
+    const sink = new TestSink();
+    const proxy = shunt(openai(), sink, { proxy: true });
+
+    const { data } = await proxy.chat.completions
+      .create({
+        model: "gpt-test",
+        messages: [{ role: "user", content: "hi" }],
+      })
+      .withResponse();
+
+    expect(data.id).toBe("chatcmpl-1");
+    expect(sink.records).toHaveLength(1);
+  });
+
+  it("proxies frozen clients", async () => {
+    const sink = new TestSink();
+    const client = Object.freeze({
+      messages: Object.freeze({
+        create: async (params: object) => ({ content: [] }),
+      }),
+    });
+    const proxy = shunt(client, sink, {
+      methods: ["messages.create"],
+      proxy: true,
+    });
+
+    await proxy.messages.create({});
+
+    expect(sink.records).toHaveLength(1);
+    expect(Object.keys(proxy)).toEqual(["messages"]);
+  });
+
+  it("unshunts to the original client", async () => {
+    const sink = new TestSink();
+    const client = new Anthropic();
+    const proxy = shunt(client, sink, { proxy: true });
+    const create = proxy.messages.create;
+
+    expect(unshunt(proxy)).toBe(client);
+    await create({ text: "hi" });
+    await proxy.messages.create({ text: "hi" });
+
+    expect(sink.records).toHaveLength(0);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import { shunt, Redaction } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+class MockMessages {
+  create = async (params: { model: string; messages: unknown[] }) => {
+    return {
+      id: "msg_fake",
+      content: [{ type: "text", text: "Write to bob@example.com" }],
+      model: params.model,
+    };
+  };
+
+  stream = async () => {
+    return {
+      async *[Symbol.asyncIterator]() {},
+    };
+  };
+}
+
+class Anthropic {
+  messages = new MockMessages();
+}
+
+describe("Redaction", () => {
+  it("replaces values at wildcard paths", () => {
+    const redaction = new Redaction({
+      paths: ["request.messages[*].content"],
+      detectors: [],
+    });
+    const result = redaction.apply({
+      request: {
+        messages: [
+          { role: "user", content: "one" },
+          { role: "user", content: "two" },
+        ],
+      },
+    });
+    expect(result.fields.request).toEqual({
+      messages: [
+        { role: "user", content: "[REDACTED]" },
+        { role: "user", content: "[REDACTED]" },
+      ],
+    });
+    expect(result.redacted).toEqual([
+      "request.messages[0].content",
+      "request.messages[1].content",
+    ]);
+  });
+
+  it("replaces detector matches within strings", () => {
+    const redaction = new Redaction();
+    const result = redaction.apply({
+      request: { prompt: "mail alice@example.com or call 555-123-4567" },
+      response: { text: "key sk-ant-REDACTED" },
+    });
+    expect(result.fields.request.prompt).toBe(
+      "mail [REDACTED:email] or call [REDACTED:phone]",
+    );
+    expect(result.fields.response).toEqual({
+      text: "key [REDACTED:anthropic_key]",
+    });
+    expect(result.redacted).toEqual(["request.prompt", "response.text"]);
+  });
+
+  it("replaces values of sensitive keys", () => {
+    const redaction = new Redaction({ detectors: [] });
+    const result = redaction.apply({
+      request: { apiKey: "secret-value", max_tokens: 10 },
+    });
+    expect(result.fields.request).toEqual({
+      apiKey: "[REDACTED]",
+      max_tokens: 10,
+    });
+    expect(result.redacted).toEqual(["request.apiKey"]);
+  });
+
+  it("applies custom functions", () => {
+    const redaction = new Redaction({
+      detectors: [],
+      functions: [
+        (value) =>
+          typeof value === "string" ? value.replace(/\d+/g, "#") : value,
+      ],
+    });
+    const result = redaction.apply({
+      request: { order: "order 1234" },
+      response: { ok: true },
+    });
+    expect(result.fields.request.order).toBe("order #");
+    expect(result.fields.response).toEqual({ ok: true });
+    expect(result.redacted).toEqual(["request.order"]);
+  });
+
+  it("does not mutate the original request", () => {
+    const redaction = new Redaction({ paths: ["request.secret"] });
+    const request = { secret: "s", nested: { email: "a@example.com" } };
+    redaction.apply({ request });
+    expect(request).toEqual({
+      secret: "s",
+      nested: { email: "a@example.com" },
+    });
+  });
+
+  it("handles circular structures", () => {
+    const redaction = new Redaction();
+    const request: Record<string, unknown> = { text: "a@example.com" };
+    request.self = request;
+    const { fields } = redaction.apply({ request });
+    expect(fields.request.text).toBe("[REDACTED:email]");
+    expect(fields.request.self).toBe(fields.request);
+  });
+});
+
+describe("shunt with redact option", () => {
+  it("redacts request and response before writing", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, {
+      redact: { paths: ["request.messages[*].content"] },
+    });
+
+    const messages = [{ role: "user", content: "my number is 555-123-4567" }];
+    const resp = await client.messages.create({ model: "claude-3", messages });
+
+    // The caller sees unredacted data
+    expect(resp.content[0].text).toBe("Write to bob@example.com");
+    expect(messages[0].content).toBe("my number is 555-123-4567");
+
+    const record = sink.records[0];
+    expect(record.request).toEqual({
+      model: "claude-3",
+      messages: [{ role: "user", content: "[REDACTED]" }],
+    });
+    expect(record.response).toEqual({
+      id: "msg_fake",
+      content: [{ type: "text", text: "Write to [REDACTED:email]" }],
+      model: "claude-3",
+    });
+    expect(record.redacted).toEqual([
+      "request.messages[0].content",
+      "response.content[0].text",
+    ]);
+    expect(record.toJSON().redacted).toEqual(record.redacted);
+  });
+
+  it("redacts the error string with the error detail", async () => {
+    const sink = new TestSink();
+    const client = shunt(
+      {
+        messages: {
+          create: async (params: object) => {
+            throw new Error(
+              "Key sk-ant-REDACTED rejected for bob@example.com",
+            );
+          },
+        },
+      },
+      sink,
+      { methods: ["messages.create"], redact: {} },
+    );
+
+    await expect(client.messages.create({})).rejects.toThrow();
+
+    const record = sink.records[0];
+    expect(record.error).toBe(
+      "Error: Key [REDACTED:anthropic_key] rejected for [REDACTED:email]",
+    );
+    expect(record.errorDetail?.message).toBe(
+      "Key [REDACTED:anthropic_key] rejected for [REDACTED:email]",
+    );
+    expect(record.redacted).toContain("error");
+  });
+
+  it("cuts long response strings once", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, {
+      redact: { detectors: [] },
+      serialize: { maxStringLength: 10 },
+    });
+    await client.messages.create({ model: "claude", messages: [] });
+
+    const response = sink.records[0].toJSON().response as {
+      content: { text: string }[];
+    };
+    expect(response.content[0].text).toBe("Write to b…[14 more]");
+  });
+
+  it("omits the marker when redaction is not configured", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink);
+    await client.messages.create({ model: "claude-3", messages: [] });
+    expect("redacted" in sink.records[0].toJSON()).toBe(false);
+  });
+
+  it("redacts standalone function records", async () => {
+    const sink = new TestSink();
+    async function complete(model: unknown, context: unknown) {
+      return { text: "ok" };
+    }
+    const wrapped = shunt(complete, sink, { redact: {} });
+    await wrapped(
+      { provider: "openai", id: "gpt-4o" },
+      { messages: [{ role: "user", content: "reach me at a@example.com" }] },
+    );
+    expect(sink.records[0].request).toEqual({
+      messages: [{ role: "user", content: "reach me at [REDACTED:email]" }],
+    });
+  });
+});
@@ -0,0 +1,445 @@
+import { describe, it, expect } from "vitest";
+import {
+  shunt,
+  reduceAnthropic,
+  reduceOpenAI,
+  reduceOpenAIChat,
+  reduceOpenAICompletions,
+  reduceOpenAIResponses,
+  reduceGemini,
+  reduceOllama,
+  reducePiAi,
+} from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+const ANTHROPIC_EVENTS = [
+  {
+    type: "message_start",
+    message: {
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: "claude-3",
+      content: [],
+      stop_reason: null,
+      usage: { input_tokens: 10, output_tokens: 1 },
+    },
+  },
+  {
+    type: "content_block_start",
+    index: 0,
+    content_block: { type: "text", text: "" },
+  },
+  {
+    type: "content_block_delta",
+    index: 0,
+    delta: { type: "text_delta", text: "Hel" },
+  },
+  {
+    type: "content_block_delta",
+    index: 0,
+    delta: { type: "text_delta", text: "lo" },
+  },
+  { type: "content_block_stop", index: 0 },
+  {
+    type: "content_block_start",
+    index: 1,
+    content_block: { type: "tool_use", id: "tu_1", name: "get", input: {} },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "input_json_delta", partial_json: '{"city":' },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "input_json_delta", partial_json: '"Paris"}' },
+  },
+  { type: "content_block_stop", index: 1 },
+  {
+    type: "message_delta",
+    delta: { stop_reason: "tool_use", stop_sequence: null },
+    usage: { output_tokens: 12 },
+  },
+  { type: "message_stop" },
+];
+
+describe("reduceAnthropic", () => {
+  it("rebuilds the message from stream events", () => {
+    expect(reduceAnthropic(ANTHROPIC_EVENTS)).toEqual({
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      model: "claude-3",
+      content: [
+        { type: "text", text: "Hello" },
+        { type: "tool_use", id: "tu_1", name: "get", input: { city: "Paris" } },
+      ],
+      stop_reason: "tool_use",
+      stop_sequence: null,
+      usage: { input_tokens: 10, output_tokens: 12 },
+    });
+  });
+
+  it("returns undefined without message_start", () => {
+    expect(reduceAnthropic([{ type: "content_block_delta" }])).toBeUndefined();
+  });
+});
+
+describe("reduceOpenAIChat", () => {
+  it("rebuilds choices and fragmented tool calls", () => {
+    const base = {
+      id: "chatcmpl_1",
+      object: "chat.completion.chunk",
+      created: 1,
+      model: "gpt-4o",
+    };
+    const chunks = [
+      {
+        ...base,
+        choices: [{ index: 0, delta: { role: "assistant", content: "Hi" } }],
+      },
+      {
+        ...base,
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [
+                {
+                  index: 0,
+                  id: "call_1",
+                  type: "function",
+                  function: { name: "get", arguments: '{"a"' },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        ...base,
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [{ index: 0, function: { arguments: ":1}" } }],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+      },
+      {
+        ...base,
+        choices: [],
+        usage: { prompt_tokens: 5, completion_tokens: 3 },
+      },
+    ];
+    expect(reduceOpenAIChat(chunks)).toEqual({
+      id: "chatcmpl_1",
+      object: "chat.completion",
+      created: 1,
+      model: "gpt-4o",
+      usage: { prompt_tokens: 5, completion_tokens: 3 },
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: "Hi",
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: { name: "get", arguments: '{"a":1}' },
+              },
+            ],
+          },
+          finish_reason: "tool_calls",
+        },
+      ],
+    });
+  });
+});
+
+describe("reduceOpenAICompletions", () => {
+  it("concatenates choice text", () => {
+    const chunk = (text: string, finish: string | null = null) => ({
+      id: "cmpl-1",
+      object: "text_completion",
+      model: "gpt-3.5-turbo-instruct",
+      choices: [{ index: 0, text, finish_reason: finish, logprobs: null }],
+    });
+    expect(
+      reduceOpenAICompletions([chunk("Hel"), chunk("lo", "stop")]),
+    ).toEqual({
+      id: "cmpl-1",
+      object: "text_completion",
+      model: "gpt-3.5-turbo-instruct",
+      choices: [{ index: 0, text: "Hello", finish_reason: "stop" }],
+    });
+  });
+});
+
+describe("reduceOpenAIResponses", () => {
+  const created = {
+    type: "response.created",
+    sequence_number: 0,
+    response: { id: "resp_1", status: "in_progress", output: [] },
+  };
+  const message = {
+    type: "message",
+    id: "msg_1",
+    role: "assistant",
+    content: [{ type: "output_text", text: "Hello" }],
+  };
+  const events = [
+    created,
+    {
+      type: "response.output_text.delta",
+      sequence_number: 1,
+      output_index: 0,
+      delta: "Hello",
+    },
+    {
+      type: "response.output_item.done",
+      sequence_number: 2,
+      output_index: 0,
+      item: message,
+    },
+  ];
+
+  it("uses the terminal response", () => {
+    const completed = {
+      type: "response.completed",
+      sequence_number: 3,
+      response: {
+        id: "resp_1",
+        status: "completed",
+        output: [message],
+        usage: { input_tokens: 3, output_tokens: 1, total_tokens: 4 },
+      },
+    };
+    expect(reduceOpenAIResponses([...events, completed])).toEqual(
+      completed.response,
+    );
+  });
+
+  it("falls back to completed output items", () => {
+    expect(reduceOpenAIResponses(events)).toEqual({
+      id: "resp_1",
+      status: "in_progress",
+      output: [message],
+    });
+  });
+});
+
+describe("reduceOpenAI", () => {
+  it("dispatches on the chunk shape", () => {
+    expect(
+      reduceOpenAI([
+        { type: "transcript.text.delta", delta: "Hi " },
+        { type: "transcript.text.delta", delta: "there" },
+        { type: "transcript.text.done", text: "Hi there" },
+      ]),
+    ).toEqual({ text: "Hi there" });
+    expect(
+      reduceOpenAI([
+        {
+          type: "response.completed",
+          response: { id: "resp_1", output: [{ type: "message" }] },
+        },
+      ]),
+    ).toMatchObject({ id: "resp_1" });
+    expect(
+      reduceOpenAI([
+        {
+          object: "chat.completion.chunk",
+          choices: [{ index: 0, delta: { content: "Hi" } }],
+        },
+      ]),
+    ).toMatchObject({ choices: [{ message: { content: "Hi" } }] });
+  });
+});
+
+describe("reduceGemini", () => {
+  it("merges candidate parts", () => {
+    const chunks = [
+      {
+        candidates: [
+          { index: 0, content: { role: "model", parts: [{ text: "Hel" }] } },
+        ],
+        modelVersion: "gemini-2.0-flash",
+      },
+      {
+        candidates: [
+          {
+            index: 0,
+            content: { role: "model", parts: [{ text: "lo" }] },
+            finishReason: "STOP",
+          },
+        ],
+        usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2 },
+        modelVersion: "gemini-2.0-flash",
+      },
+    ];
+    expect(reduceGemini(chunks)).toEqual({
+      candidates: [
+        {
+          index: 0,
+          content: { role: "model", parts: [{ text: "Hello" }] },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2 },
+      modelVersion: "gemini-2.0-flash",
+    });
+  });
+});
+
+describe("reduceOllama", () => {
+  it("concatenates chat message content", () => {
+    const chunks = [
+      {
+        model: "llama3",
+        message: { role: "assistant", content: "Hel" },
+        done: false,
+      },
+      {
+        model: "llama3",
+        message: { role: "assistant", content: "lo" },
+        done: false,
+      },
+      {
+        model: "llama3",
+        message: { role: "assistant", content: "" },
+        done: true,
+        done_reason: "stop",
+        eval_count: 2,
+      },
+    ];
+    expect(reduceOllama(chunks)).toEqual({
+      model: "llama3",
+      message: { role: "assistant", content: "Hello" },
+      done: true,
+      done_reason: "stop",
+      eval_count: 2,
+    });
+  });
+
+  it("concatenates generate responses", () => {
+    const chunks = [
+      { model: "llama3", response: "Hel", done: false },
+      { model: "llama3", response: "lo", done: true, eval_count: 2 },
+    ];
+    expect(reduceOllama(chunks)).toEqual({
+      model: "llama3",
+      response: "Hello",
+      done: true,
+      eval_count: 2,
+    });
+  });
+});
+
+describe("reducePiAi", () => {
+  it("uses the message of the done event", () => {
+    const message = {
+      role: "assistant",
+      content: [{ type: "text", text: "Hi" }],
+    };
+    expect(
+      reducePiAi([
+        { type: "start", partial: {} },
+        { type: "done", reason: "stop", message },
+      ]),
+    ).toEqual(message);
+  });
+
+  it("falls back to the last partial", () => {
+    expect(
+      reducePiAi([
+        { type: "start", partial: { content: [] } },
+        { type: "text_delta", delta: "H", partial: { content: ["H"] } },
+      ]),
+    ).toEqual({ content: ["H"] });
+  });
+});
+
+describe("shunt stream reassembly", () => {
+  class Messages {
+    create = async () => ({
+      async *[Symbol.asyncIterator]() {
+        yield* ANTHROPIC_EVENTS;
+      },
+    });
+
+    stream = this.create;
+  }
+
+  class Anthropic {
+    messages = new Messages();
+  }
+
+  async function drain(iterable: unknown): Promise<void> {
+    for await (const _ of iterable as AsyncIterable<unknown>) {
+      // consume
+    }
+  }
+
+  it("stores the reassembled response alongside chunks", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink);
+    await drain(await client.messages.create());
+
+    const record = sink.records[0];
+    expect(record.response).toHaveLength(ANTHROPIC_EVENTS.length);
+    expect(record.reassembled).toEqual(reduceAnthropic(ANTHROPIC_EVENTS));
+    expect(record.toJSON().reassembled).toEqual(record.reassembled);
+  });
+
+  it("drops chunks", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, { chunks: "drop" });
+    await drain(await client.messages.create());
+
+    expect(sink.records[0].response).toBeNull();
+    expect(sink.records[0].reassembled).toBeDefined();
+  });
+
+  it("caps chunks", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, { chunks: 3 });
+    await drain(await client.messages.create());
+
+    expect(sink.records[0].response).toEqual(ANTHROPIC_EVENTS.slice(0, 3));
+  });
+
+  it("can disable reassembly", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, { reassemble: false });
+    await drain(await client.messages.create());
+
+    expect(sink.records[0].reassembled).toBeUndefined();
+    expect("reassembled" in sink.records[0].toJSON()).toBe(false);
+  });
+
+  it("detects pi-ai events for standalone functions", async () => {
+    const sink = new TestSink();
+    const message = { role: "assistant", content: [] };
+    function stream(model: unknown, context: unknown) {
+      return {
+        async *[Symbol.asyncIterator]() {
+          yield { type: "start", partial: message };
+          yield { type: "done", reason: "stop", message };
+        },
+      };
+    }
+    const wrapped = shunt(stream, sink);
+    await drain(
+      wrapped({ provider: "openai", id: "gpt-4o" }, { messages: [] }),
+    );
+
+    expect(sink.records[0].reassembled).toEqual(message);
+  });
+});
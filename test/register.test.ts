@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { load, resolve } from "../src/hooks.js";
+import { instrumentModule } from "../src/instrument.js";
+
+const SDK_URL = "file:///app/node_modules/ollama/dist/index.mjs";
+
+// The hooks only call through to the next hook, so these stand in for Node's
+const nextResolve = async (specifier: string) => ({
+  url: specifier.startsWith("file:") ? specifier : SDK_URL,
+  format: "module" as const,
+});
+const nextLoad = async (url: string) => ({
+  format: "module" as const,
+  source: `// ${url}`,
+});
+
+describe("register hooks", () => {
+  it("serve instrumented modules for SDK packages imported by name", async () => {
+    const resolved = await resolve(
+      "ollama",
+      {
+        parentURL: "file:///app/server.js",
+        conditions: [],
+        importAttributes: {},
+      },
+      nextResolve as never,
+    );
+    expect(resolved.url).toBe(`${SDK_URL}?shuntly-instrument=ollama`);
+
+    const loaded = await load(
+      resolved.url,
+      { format: "module", conditions: [], importAttributes: {} },
+      nextLoad as never,
+    );
+    const source = String(loaded.source);
+    expect(source).toContain(`export * from "${SDK_URL}";`);
+    expect(source).toContain(`export const Ollama = wrapped["Ollama"];`);
+    expect(source).toContain("export default wrapped.default;");
+  });
+
+  it("leave other modules, and SDKs imported by SDKs, as they are", async () => {
+    const context = {
+      parentURL: "file:///app/server.js",
+      conditions: [],
+      importAttributes: {},
+    };
+    expect(
+      (await resolve("./util.js", context, nextResolve as never)).url,
+    ).toBe(SDK_URL);
+    const fromPiAi = await resolve(
+      "ollama",
+      {
+        ...context,
+        parentURL:
+          "file:///app/node_modules/@mariozechner/pi-ai/dist/stream.js",
+      },
+      nextResolve as never,
+    );
+    expect(fromPiAi.url).toBe(SDK_URL);
+
+    const loaded = await load(
+      SDK_URL,
+      { format: "module", conditions: [], importAttributes: {} },
+      nextLoad as never,
+    );
+    expect(loaded.source).toBe(`// ${SDK_URL}`);
+  });
+});
+
+describe("instrumentModule", () => {
+  class Ollama {
+    static host = "http://127.0.0.1:11434";
+    chat = async (params: object) => ({ message: { content: "Hi" } });
+    generate = async (params: object) => ({ response: "Hi" });
+    pull = async () => ({});
+
+    withOptions(): Ollama {
+      return new (this.constructor as typeof Ollama)();
+    }
+  }
+
+  const isShunted = (fn: unknown) =>
+    Object.getOwnPropertySymbols(fn)
+      .map(String)
+      .includes("Symbol(shuntly.shunted)");
+
+  it("shunts every instance of client classes", () => {
+    const exports = { default: Ollama, Ollama, VERSION: "1.0" };
+    const wrapped = instrumentModule(exports, {
+      classes: ["default", "Ollama"],
+    });
+    const Wrapped = wrapped.Ollama as typeof Ollama;
+
+    expect(wrapped.default).toBe(Wrapped);
+    expect(Wrapped.host).toBe(Ollama.host);
+    const client = new Wrapped();
+    expect(client).toBeInstanceOf(Ollama);
+    expect(client).toBeInstanceOf(Wrapped);
+    expect(isShunted(client.chat)).toBe(true);
+    expect(isShunted(new (class extends Wrapped {})().chat)).toBe(true);
+    expect(isShunted(new Ollama().chat)).toBe(false);
+  });
+
+  it("shunts clones made through the client's own constructor", () => {
+    const wrapped = instrumentModule({ Ollama }, { classes: ["Ollama"] });
+    const Wrapped = wrapped.Ollama as typeof Ollama;
+
+    const clone = new Wrapped().withOptions();
+    expect(clone).toBeInstanceOf(Ollama);
+    expect(isShunted(clone.chat)).toBe(true);
+    expect(isShunted(clone.withOptions().chat)).toBe(true);
+    expect(isShunted(new Ollama().withOptions().chat)).toBe(false);
+  });
+
+  it("shunts instances and functions, passing other values through", () => {
+    async function complete(model: object, context: object) {
+      return { role: "assistant", content: [] };
+    }
+    const instance = new Ollama();
+    const wrapped = instrumentModule(
+      { default: instance, complete, stream: undefined },
+      { instances: ["default"], functions: ["complete", "stream"] },
+    );
+
+    expect(wrapped.default).toBe(instance);
+    expect(isShunted(instance.chat)).toBe(true);
+    expect(isShunted(wrapped.complete)).toBe(true);
+    expect((wrapped.complete as typeof complete).name).toBe("complete");
+    expect(wrapped.stream).toBeUndefined();
+  });
+});
@@ -0,0 +1,401 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  shunt,
+  ReplayMissError,
+  ShuntlyRecord,
+  SinkFile,
+} from "../src/index.js";
+
+class Ollama {
+  calls = 0;
+
+  chat = async (params: {
+    model: string;
+    prompt: string;
+    stream?: boolean;
+  }) => {
+    this.calls += 1;
+    if (params.stream) {
+      return {
+        async *[Symbol.asyncIterator]() {
+          yield {
+            model: params.model,
+            message: { content: "li" },
+            done: false,
+          };
+          yield { model: params.model, message: { content: "ve" }, done: true };
+        },
+      };
+    }
+    return { message: { content: `live: ${params.prompt}` } };
+  };
+
+  generate = async (params: object) => ({ response: "live" });
+}
+
+function writeLog(file: string, records: ShuntlyRecord[]): void {
+  fs.writeFileSync(
+    file,
+    records.map((r) => JSON.stringify(r.toJSON()) + "\n").join(""),
+  );
+}
+
+function chatRecord(request: object, response: unknown): ShuntlyRecord {
+  return ShuntlyRecord.build({
+    client: "Ollama",
+    method: "chat",
+    request,
+    response,
+    durationMs: 10,
+  });
+}
+
+describe("replay", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "shuntly-test-"));
+    file = path.join(dir, "cassette.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("serves exact matches without calling the SDK", async () => {
+    writeLog(file, [
+      chatRecord(
+        { prompt: "hi", model: "llama3" },
+        { message: { content: "recorded" } },
+      ),
+    ]);
+    const ollama = new Ollama();
+    const client = shunt(ollama, null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    // Key order does not matter
+    const response = await client.chat({ model: "llama3", prompt: "hi" });
+
+    expect(response).toEqual({ message: { content: "recorded" } });
+    expect(ollama.calls).toBe(0);
+  });
+
+  it("rejects unmatched calls in replay mode", async () => {
+    writeLog(file, [chatRecord({ model: "llama3", prompt: "hi" }, {})]);
+    const client = shunt(new Ollama(), null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    await expect(
+      client.chat({ model: "llama3", prompt: "bye" }),
+    ).rejects.toBeInstanceOf(ReplayMissError);
+  });
+
+  it("ignores fields when matching", async () => {
+    writeLog(file, [
+      chatRecord(
+        { model: "llama3", prompt: "hi", options: { seed: 1 } },
+        { message: { content: "recorded" } },
+      ),
+    ]);
+    const client = shunt(new Ollama(), null, {
+      replay: {
+        mode: "replay",
+        source: file,
+        match: { ignore: ["options.seed"] },
+      },
+    });
+
+    const response = await client.chat({
+      model: "llama3",
+      prompt: "hi",
+      options: { seed: 2 },
+    } as { model: string; prompt: string });
+
+    expect(response).toEqual({ message: { content: "recorded" } });
+  });
+
+  it("matches on a custom key", async () => {
+    writeLog(file, [
+      chatRecord(
+        { model: "llama3", prompt: "anything" },
+        { message: { content: "recorded" } },
+      ),
+    ]);
+    const client = shunt(new Ollama(), null, {
+      replay: {
+        mode: "replay",
+        source: file,
+        match: ({ method, request }) =>
+          `${method}:${(request as { model: string }).model}`,
+      },
+    });
+
+    const response = await client.chat({ model: "llama3", prompt: "other" });
+
+    expect(response).toEqual({ message: { content: "recorded" } });
+  });
+
+  it("serves identical requests in recorded order", async () => {
+    const request = { model: "llama3", prompt: "roll" };
+    writeLog(file, [
+      chatRecord(request, { n: 1 }),
+      chatRecord(request, { n: 2 }),
+    ]);
+    const client = shunt(new Ollama(), null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    expect(await client.chat(request)).toEqual({ n: 1 });
+    expect(await client.chat(request)).toEqual({ n: 2 });
+    expect(await client.chat(request)).toEqual({ n: 2 });
+  });
+
+  it("re-emits recorded stream chunks", async () => {
+    const chunks = [
+      { model: "llama3", message: { content: "re" }, done: false },
+      { model: "llama3", message: { content: "played" }, done: true },
+    ];
+    writeLog(file, [
+      ShuntlyRecord.build({
+        client: "Ollama",
+        method: "chat",
+        request: { model: "llama3", prompt: "hi", stream: true },
+        response: chunks,
+        durationMs: 10,
+        streamTiming: {
+          chunkCount: 2,
+          timeToFirstChunkMs: 1,
+          timeToFirstTokenMs: 1,
+          chunkGapMs: null,
+          producerMs: 1,
+          consumerMs: 0,
+        },
+      }),
+    ]);
+    const client = shunt(new Ollama(), null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    const received: unknown[] = [];
+    const stream = (await client.chat({
+      model: "llama3",
+      prompt: "hi",
+      stream: true,
+    })) as AsyncIterable<unknown>;
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+
+    expect(received).toEqual(chunks);
+  });
+
+  it("re-throws recorded errors", async () => {
+    writeLog(file, [
+      ShuntlyRecord.build({
+        client: "Ollama",
+        method: "chat",
+        request: { model: "llama3", prompt: "hi" },
+        response: null,
+        durationMs: 10,
+        error: "RateLimitError: slow down",
+      }),
+    ]);
+    const client = shunt(new Ollama(), null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    const err = await client
+      .chat({ model: "llama3", prompt: "hi" })
+      .catch((e: Error) => e);
+
+    expect(err).toBeInstanceOf(Error);
+    expect((err as Error).name).toBe("RateLimitError");
+    expect((err as Error).message).toBe("slow down");
+  });
+
+  it("re-throws recorded error details", async () => {
+    writeLog(file, [
+      ShuntlyRecord.build({
+        client: "Ollama",
+        method: "chat",
+        request: { model: "llama3", prompt: "hi" },
+        response: null,
+        durationMs: 10,
+        error: "Error: 429 slow down",
+        errorDetail: {
+          name: "RateLimitError",
+          message: "429 slow down",
+          category: "rate_limit",
+          status: 429,
+          code: null,
+          requestId: null,
+          headers: { "retry-after": "1" },
+          body: null,
+          stack: null,
+        },
+      }),
+    ]);
+    const client = shunt(new Ollama(), null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    const err = await client
+      .chat({ model: "llama3", prompt: "hi" })
+      .catch((e: Error) => e);
+
+    expect(err).toMatchObject({
+      name: "RateLimitError",
+      message: "429 slow down",
+      status: 429,
+      headers: { "retry-after": "1" },
+    });
+  });
+
+  it("fails replayed streams on their first chunk", async () => {
+    function stream(
+      model: { provider: string; id: string },
+      context: { messages: unknown[] },
+    ): AsyncIterable<unknown> {
+      throw new Error("not called in replay");
+    }
+    const model = { provider: "anthropic", id: "claude-3" };
+    writeLog(file, [
+      ShuntlyRecord.build({
+        client: "anthropic/claude-3",
+        method: "stream",
+        request: { messages: ["hi"] },
+        response: null,
+        durationMs: 10,
+        error: "RateLimitError: slow down",
+      }),
+    ]);
+    const wrapped = shunt(stream, null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    async function drain(iterable: AsyncIterable<unknown>): Promise<unknown> {
+      try {
+        for await (const chunk of iterable) {
+          return chunk;
+        }
+      } catch (err) {
+        return err;
+      }
+    }
+
+    const err = await drain(wrapped(model, { messages: ["hi"] }));
+    expect(err).toMatchObject({ name: "RateLimitError", message: "slow down" });
+    const miss = await drain(wrapped(model, { messages: ["bye"] }));
+    expect(miss).toBeInstanceOf(ReplayMissError);
+  });
+
+  it("replays messages.stream() without its event helpers", async () => {
+    class Anthropic {
+      messages = {
+        create: async (params: object) => ({}),
+        stream: (params: object) => {
+          throw new Error("not called in replay");
+        },
+      };
+    }
+    const chunks = [{ type: "message_start" }, { type: "message_stop" }];
+    writeLog(file, [
+      ShuntlyRecord.build({
+        client: "Anthropic",
+        method: "messages.stream",
+        request: { model: "claude" },
+        response: chunks,
+        durationMs: 10,
+        streamTiming: {
+          chunkCount: 2,
+          timeToFirstChunkMs: 1,
+          timeToFirstTokenMs: null,
+          chunkGapMs: null,
+          producerMs: 1,
+          consumerMs: 0,
+        },
+      }),
+    ]);
+    const client = shunt(new Anthropic(), null, {
+      replay: { mode: "replay", source: file },
+    });
+
+    const stream = client.messages.stream({
+      model: "claude",
+    }) as unknown as AsyncIterable<unknown> & {
+      on?: unknown;
+      finalMessage?: unknown;
+    };
+    const received: unknown[] = [];
+    for await (const chunk of stream) {
+      received.push(chunk);
+    }
+
+    expect(received).toEqual(chunks);
+    // Only the chunks are recorded, not the SDK's stream object
+    expect(stream.on).toBeUndefined();
+    expect(stream.finalMessage).toBeUndefined();
+  });
+
+  it("records missing calls and replays them later", async () => {
+    const ollama = new Ollama();
+    const recorder = shunt(ollama, null, {
+      replay: { mode: "record-missing", source: file },
+    });
+
+    const first = await recorder.chat({ model: "llama3", prompt: "hi" });
+    expect(ollama.calls).toBe(1);
+
+    const replayed = new Ollama();
+    const client = shunt(replayed, null, {
+      replay: { mode: "replay", source: file },
+    });
+    expect(await client.chat({ model: "llama3", prompt: "hi" })).toEqual(first);
+    expect(replayed.calls).toBe(0);
+  });
+
+  it("matches requests recorded with redaction", async () => {
+    const options = {
+      replay: { mode: "record-missing" as const, source: file },
+      redact: {},
+    };
+    const request = { model: "llama3", prompt: "Mail bob@example.com" };
+    const recorder = new Ollama();
+    await shunt(recorder, null, options).chat(request);
+
+    const replayed = new Ollama();
+    const client = shunt(replayed, null, {
+      ...options,
+      replay: { ...options.replay, mode: "replay" },
+    });
+
+    expect(await client.chat(request)).toEqual({
+      message: { content: "live: Mail [REDACTED:email]" },
+    });
+    expect(replayed.calls).toBe(0);
+  });
+
+  it("reads SinkRotating directories", async () => {
+    const sink = new SinkFile(path.join(dir, "2026-01-01.jsonl"));
+    sink.write(
+      chatRecord(
+        { model: "llama3", prompt: "hi" },
+        { message: { content: "rotated" } },
+      ),
+    );
+    sink.close();
+    const client = shunt(new Ollama(), null, {
+      replay: { mode: "replay", source: dir },
+    });
+
+    expect(await client.chat({ model: "llama3", prompt: "hi" })).toEqual({
+      message: { content: "rotated" },
+    });
+  });
+});
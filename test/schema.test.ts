@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import {
+  shunt,
+  migrateRecord,
+  validateRecord,
+  RECORD_SCHEMAS,
+  SCHEMA_VERSION,
+} from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+/** A record as written before records were versioned. */
+const V1_RECORD = {
+  timestamp: "2025-01-15T12:00:00.000Z",
+  hostname: "dev1",
+  user: "alice",
+  pid: 42,
+  client: "Anthropic",
+  method: "messages.create",
+  request: { model: "claude-sonnet-4-20250514", messages: [] },
+  response: { content: [{ type: "text", text: "Hi!" }] },
+  durationMs: 823.4,
+  error: null,
+};
+
+describe("record schema", () => {
+  it("validates records as written", async () => {
+    const sink = new TestSink();
+    class Ollama {
+      chat = async (params: object) => ({
+        async *[Symbol.asyncIterator]() {
+          yield { model: "llama3", message: { content: "Hi" }, done: false };
+          yield { model: "llama3", message: { content: "" }, done: true };
+        },
+      });
+      generate = async (params: object) => {
+        throw Object.assign(new Error("Too many requests"), { status: 429 });
+      };
+      pull = async () => ({});
+    }
+    const client = shunt(new Ollama(), sink, { conversation: true });
+
+    for await (const _ of await client.chat({ model: "llama3" })) {
+      // consume
+    }
+    await expect(client.generate({})).rejects.toThrow();
+
+    expect(sink.records).toHaveLength(2);
+    for (const record of sink.records) {
+      const json = JSON.parse(record.toJSONString());
+      expect(json.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(validateRecord(json)).toEqual({ valid: true, errors: [] });
+    }
+  });
+
+  it("reports each failure by JSON pointer", () => {
+    const result = validateRecord({
+      ...migrateRecord(V1_RECORD),
+      pid: "42",
+      status: "done",
+      usage: { inputTokens: 1.5 },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      "/pid: expected integer, got string",
+      '/status: expected one of "ok", "error", "aborted", "early_return", "timeout"',
+      "/usage: missing outputTokens",
+      "/usage: missing cacheReadTokens",
+      "/usage: missing cacheWriteTokens",
+      "/usage: missing reasoningTokens",
+      "/usage: missing totalTokens",
+      "/usage/inputTokens: expected integer or null, got number",
+    ]);
+    expect(validateRecord({ schemaVersion: 99 }).errors).toEqual([
+      "/schemaVersion: unknown version 99",
+    ]);
+  });
+
+  it("migrates unversioned records to the current version", () => {
+    expect(validateRecord(V1_RECORD).valid).toBe(true);
+
+    const migrated = migrateRecord(V1_RECORD);
+    expect(migrated).toMatchObject({
+      schemaVersion: SCHEMA_VERSION,
+      client: "Anthropic",
+      request: V1_RECORD.request,
+      status: "ok",
+      errorDetail: null,
+      tools: [],
+    });
+    expect(validateRecord(migrated)).toEqual({ valid: true, errors: [] });
+    // The same line migrates to the same ids
+    expect(migrateRecord(V1_RECORD).id).toBe(migrated.id);
+    expect(migrateRecord({ ...V1_RECORD, error: "Error: boom" }).status).toBe(
+      "error",
+    );
+    // Current records pass through
+    expect(migrateRecord(migrated)).toEqual(migrated);
+    expect(() => migrateRecord({ ...migrated, schemaVersion: 99 })).toThrow(
+      "Cannot migrate records of schema version 99",
+    );
+  });
+
+  it("is published for each version", () => {
+    for (const [version, schema] of Object.entries(RECORD_SCHEMAS)) {
+      const file = new URL(
+        `../schema/record.v${version}.json`,
+        import.meta.url,
+      );
+      // Regenerate with `npm run schema`
+      expect(JSON.parse(fs.readFileSync(file, "utf-8"))).toEqual(schema);
+    }
+    expect(Object.keys(RECORD_SCHEMAS).map(Number)).toContain(SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { shunt, serializeValue, ShuntlyRecord, Sink } from "../src/index.js";
+
+class TestSink implements Sink {
+  lines: string[] = [];
+
+  write(record: ShuntlyRecord): void {
+    this.lines.push(record.toJSONString());
+  }
+
+  close(): void {}
+}
+
+class MockMessages {
+  create = async (params: object) => {
+    const response: Record<string, unknown> = {
+      id: "msg_fake",
+      content: [{ type: "text", text: "Hi" }],
+      tokens: 12n,
+    };
+    response.self = response;
+    return response;
+  };
+}
+
+class Anthropic {
+  messages = new MockMessages();
+}
+
+describe("serializeValue", () => {
+  it("marks cycles but keeps shared references", () => {
+    const shared = { a: 1 };
+    const value: Record<string, unknown> = { left: shared, right: shared };
+    value.loop = [value];
+    expect(serializeValue(value)).toEqual({
+      left: { a: 1 },
+      right: { a: 1 },
+      loop: ["[Circular]"],
+    });
+  });
+
+  it("converts exotic values", () => {
+    const err = new TypeError("bad", { cause: new Error("inner") });
+    (err as TypeError & { status: number }).status = 400;
+    const serialized = serializeValue({
+      big: 2n ** 64n,
+      map: new Map<unknown, unknown>([[{ id: 1 }, new Set(["x"])]]),
+      date: new Date("2026-01-02T03:04:05Z"),
+      bytes: new Uint8Array([104, 105]),
+      fn: function create() {},
+      signal: new AbortController().signal,
+      err,
+    }) as Record<string, unknown>;
+
+    expect(serialized).toMatchObject({
+      big: "18446744073709551616n",
+      map: {
+        type: "map",
+        entries: [[{ id: 1 }, { type: "set", values: ["x"] }]],
+      },
+      date: "2026-01-02T03:04:05.000Z",
+      bytes: { type: "binary", kind: "Uint8Array", bytes: 2, base64: "aGk=" },
+      fn: "[Function: create]",
+      signal: "[AbortSignal]",
+      err: {
+        type: "error",
+        name: "TypeError",
+        message: "bad",
+        status: 400,
+        cause: { type: "error", name: "Error", message: "inner" },
+      },
+    });
+  });
+
+  it("applies depth, binary, and string limits", () => {
+    const nested = { a: { b: { c: {} } } };
+    expect(serializeValue(nested, { maxDepth: 2 })).toEqual({
+      a: { b: "[MaxDepth]" },
+    });
+    expect(serializeValue(Buffer.from("hello"), { maxBinaryBytes: 4 })).toEqual(
+      { type: "binary", kind: "Buffer", bytes: 5 },
+    );
+    expect(serializeValue("abcdef", { maxStringLength: 4 })).toBe(
+      "abcd…[2 more]",
+    );
+  });
+
+  it("writes records for calls with unserializable values", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink);
+    const request: Record<string, unknown> = { model: "claude", seed: 7n };
+    request.parent = request;
+
+    await client.messages.create(request);
+
+    const record = JSON.parse(sink.lines[0]);
+    expect(record.request).toEqual({
+      model: "claude",
+      seed: "7n",
+      parent: "[Circular]",
+    });
+    expect(record.response.self).toBe("[Circular]");
+    expect(record.response.tokens).toBe("12n");
+  });
+
+  it("limits records by the serialize option", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink, {
+      serialize: { maxStringLength: 4 },
+    });
+    await client.messages.create({ model: "claude-sonnet" });
+
+    const request = JSON.parse(sink.lines[0]).request;
+    expect(request.model).toBe("clau…[9 more]");
+
+    const unlimited = new TestSink();
+    const defaults = shunt(new Anthropic(), unlimited);
+    await defaults.messages.create({ model: "x".repeat(1024 * 1024 + 1) });
+
+    // Strings are cut at 1 MiB by default
+    expect(JSON.parse(unlimited.lines[0]).request.model).toMatch(
+      /^x+…\[1 more\]$/,
+    );
+  });
+});
@@ -1,16 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { shunt, ShuntlyRecord, Sink } from "../src/index.js";
-
-// Helper to capture sink output
-class TestSink implements Sink {
-  records: ShuntlyRecord[] = [];
-
-  write(record: ShuntlyRecord): void {
-    this.records.push(record);
-  }
-
-  close(): void {}
-}
+import { shunt, unshunt, shuntScoped } from "../src/index.js";
+import { TestSink } from "./helpers.js";
 
 // Mock Anthropic-like client
 class MockMessages {
@@ -559,3 +549,163 @@ describe("with standalone functions", () => {
     });
   });
 });
+
+describe("re-shunting and unshunt", () => {
+  it("does not double-record when shunted twice", async () => {
+    const sink = new TestSink();
+    const client = shunt(shunt(new Anthropic(), sink), sink);
+
+    await client.messages.create({
+      model: "claude-3",
+      max_tokens: 1,
+      messages: [],
+    });
+
+    expect(sink.records).toHaveLength(1);
+  });
+
+  it("re-targets to the latest sink", async () => {
+    const first = new TestSink();
+    const second = new TestSink();
+    const client = shunt(new Anthropic(), first);
+    const create = client.messages.create;
+    shunt(client, second);
+
+    expect(client.messages.create).toBe(create);
+    await client.messages.create({
+      model: "claude-3",
+      max_tokens: 1,
+      messages: [],
+    });
+
+    expect(first.records).toHaveLength(0);
+    expect(second.records).toHaveLength(1);
+  });
+
+  it("restores original client methods", async () => {
+    const sink = new TestSink();
+    const client = new Anthropic();
+    const original = client.messages.create;
+    shunt(client, sink);
+    const wrapped = client.messages.create;
+
+    expect(unshunt(client)).toBe(client);
+    expect(client.messages.create).toBe(original);
+
+    // Retained references to the wrapper no longer record
+    await wrapped({ model: "claude-3", max_tokens: 1, messages: [] });
+    expect(sink.records).toHaveLength(0);
+  });
+
+  it("restores prototype methods by removing the patch", async () => {
+    class Resource {
+      async call(params: object) {
+        return "ok";
+      }
+    }
+    class Client {
+      resource = new Resource();
+    }
+    const sink = new TestSink();
+    const client = shunt(new Client(), sink, ["resource.call"]);
+    expect(Object.hasOwn(client.resource, "call")).toBe(true);
+
+    unshunt(client);
+    expect(Object.hasOwn(client.resource, "call")).toBe(false);
+    expect(client.resource.call).toBe(Resource.prototype.call);
+  });
+
+  it("returns the original standalone function", async () => {
+    const sink = new TestSink();
+    async function complete(model: unknown, context: unknown) {
+      return "ok";
+    }
+    const wrapped = shunt(complete, sink);
+
+    expect(shunt(wrapped, sink)).toBe(wrapped);
+    expect(unshunt(wrapped)).toBe(complete);
+
+    await wrapped({}, {});
+    expect(sink.records).toHaveLength(0);
+  });
+
+  it("can shunt again after unshunt", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Anthropic(), sink);
+    unshunt(client);
+    shunt(client, sink);
+
+    await client.messages.create({
+      model: "claude-3",
+      max_tokens: 1,
+      messages: [],
+    });
+    expect(sink.records).toHaveLength(1);
+  });
+
+  it("unshunts a scoped handle on dispose", async () => {
+    const sink = new TestSink();
+    const client = new Anthropic();
+    const original = client.messages.create;
+    {
+      const handle = shuntScoped(client, sink);
+      await handle.target.messages.create({
+        model: "claude-3",
+        max_tokens: 1,
+        messages: [],
+      });
+      handle[Symbol.dispose]();
+    }
+
+    expect(client.messages.create).toBe(original);
+    expect(sink.records).toHaveLength(1);
+  });
+});
+
+describe("recording failures", () => {
+  class MyClient {
+    inner = {
+      fetch: async (params: { prompt: string }) => "async ok",
+      compute: (params: { prompt: string }) => "sync ok",
+    };
+  }
+
+  const failing = {
+    "a throwing capture predicate": {
+      capture: {
+        predicate: (): boolean => {
+          throw new Error("predicate failed");
+        },
+      },
+    },
+    "a throwing redactor": {
+      redact: {
+        functions: [
+          (): unknown => {
+            throw new Error("redactor failed");
+          },
+        ],
+      },
+    },
+  };
+
+  for (const [name, options] of Object.entries(failing)) {
+    it(`never reach the caller from ${name}`, async () => {
+      const errors: unknown[] = [];
+      const client = shunt(new MyClient(), new TestSink(), {
+        methods: ["inner.fetch", "inner.compute"],
+        onSinkError: (error) => errors.push(error),
+        ...options,
+      });
+
+      expect(client.inner.compute({ prompt: "hi" })).toBe("sync ok");
+      await expect(client.inner.fetch({ prompt: "hi" })).resolves.toBe(
+        "async ok",
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(errors).toHaveLength(2);
+      expect(String(errors[0])).toMatch(/(predicate|redactor) failed/);
+    });
+  }
+});
@@ -1,8 +1,18 @@
-import { describe, it, expect } from "vitest";
+import { afterAll, describe, it, expect, vi } from "vitest";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
-import { ShuntlyRecord, SinkRotating, SinkStream } from "../src/index.js";
+import {
+  shunt,
+  sinkFromSpec,
+  ShuntlyRecord,
+  SinkFile,
+  SinkMany,
+  SinkPipe,
+  SinkRotating,
+  SinkStream,
+  Sink,
+} from "../src/index.js";
 import { Writable } from "stream";
 
 function makeRecord(): ShuntlyRecord {
@@ -152,3 +162,183 @@ describe("SinkRotating", () => {
     }
   });
 });
+
+describe("sink failures", () => {
+  function makeTmpDir(): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), "shuntly-test-"));
+  }
+
+  class FailingSink implements Sink {
+    write(): void {
+      throw new Error("disk full");
+    }
+    close(): void {}
+  }
+
+  class Ollama {
+    chat = async () => ({ message: { content: "Hi" } });
+    generate = async () => ({ response: "Hi" });
+  }
+
+  it("keep writing to healthy sinks and report health", () => {
+    const dir = makeTmpDir();
+    try {
+      const file = path.join(dir, "ok.jsonl");
+      // A directory cannot be opened for appending
+      const broken = new SinkFile(dir);
+      const sink = new SinkMany([
+        broken,
+        new SinkFile(file),
+        new FailingSink(),
+      ]);
+
+      expect(() => sink.write(makeRecord())).toThrow("2 of 3 sinks failed");
+      sink.close();
+
+      expect(fs.readFileSync(file, "utf8").split("\n")).toHaveLength(2);
+      const health = sink.health();
+      expect(health).toMatchObject({ healthy: false, writes: 0, errors: 1 });
+      expect(health.sinks).toMatchObject([
+        { healthy: false, writes: 0, errors: 1 },
+        { healthy: true, writes: 1, errors: 0, lastError: null },
+        { healthy: false, errors: 1, lastError: "disk full" },
+      ]);
+      expect(broken.health().lastError).toContain("EISDIR");
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("never fail the call, reporting to onSinkError", async () => {
+    const failures: unknown[] = [];
+    const client = shunt(new Ollama(), new FailingSink(), {
+      onSinkError: (error, record) => failures.push([error, record.method]),
+      middleware: [{ beforeWrite: async (record) => record }],
+    });
+
+    await expect(client.chat()).resolves.toEqual({
+      message: { content: "Hi" },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(failures).toEqual([[new Error("disk full"), "chat"]]);
+  });
+
+  it("warn about sink failures by default", async () => {
+    const warn = vi.spyOn(process, "emitWarning").mockImplementation(() => {});
+    try {
+      const client = shunt(new Ollama(), new FailingSink());
+      await client.generate();
+      expect(warn).toHaveBeenCalledWith(
+        "Shuntly sink failed to write a record: disk full",
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe("sinkFromSpec", () => {
+  function makeTmpDir(): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), "shuntly-test-"));
+  }
+
+  it("creates sinks by scheme", () => {
+    expect(sinkFromSpec("stderr")).toBeInstanceOf(SinkStream);
+    expect(sinkFromSpec("stdout")).toBeInstanceOf(SinkStream);
+    expect(sinkFromSpec("file:///var/log/x.jsonl")).toBeInstanceOf(SinkFile);
+    expect(sinkFromSpec("pipe:///tmp/s.fifo")).toBeInstanceOf(SinkPipe);
+    expect(sinkFromSpec("stderr, file://./x.jsonl")).toBeInstanceOf(SinkMany);
+  });
+
+  it("writes files at absolute and relative paths", () => {
+    const dir = makeTmpDir();
+    try {
+      const file = path.join(dir, "a b.jsonl");
+      const sink = sinkFromSpec(`file://${file.replace(/ /g, "%20")}`);
+      sink.write(makeRecord());
+      sink.close();
+      expect(fs.readFileSync(file, "utf8").split("\n")).toHaveLength(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("passes rotation sizes with units", () => {
+    const dir = makeTmpDir();
+    try {
+      const sink = sinkFromSpec(
+        `rotating://${dir}?maxBytesFile=1B&maxBytesDir=1GB`,
+      );
+      expect(sink).toBeInstanceOf(SinkRotating);
+      sink.write(makeRecord());
+      sink.write(makeRecord());
+      sink.close();
+      expect(
+        fs.readdirSync(dir).filter((f) => f.endsWith(".jsonl")),
+      ).toHaveLength(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("rejects invalid specs", () => {
+    expect(() => sinkFromSpec("")).toThrow("Empty sink spec");
+    expect(() => sinkFromSpec("/var/log/x.jsonl")).toThrow("Invalid sink spec");
+    expect(() => sinkFromSpec("s3://bucket/key")).toThrow(
+      'Unknown sink scheme "s3"',
+    );
+    expect(() => sinkFromSpec("rotating:///tmp/x?maxBytesFile=lots")).toThrow(
+      "Invalid size: lots",
+    );
+  });
+});
+
+describe("environment", () => {
+  class Ollama {
+    chat = async () => ({ message: { content: "Hi" } });
+    generate = async () => ({ response: "Hi" });
+    pull = async () => ({});
+  }
+
+  function withEnv(env: Record<string, string>, run: () => Promise<void>) {
+    return async () => {
+      Object.assign(process.env, env);
+      try {
+        await run();
+      } finally {
+        for (const key of Object.keys(env)) {
+          delete process.env[key];
+        }
+      }
+    };
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shuntly-test-"));
+  const file = path.join(dir, "env.jsonl");
+  afterAll(() => fs.rmSync(dir, { recursive: true }));
+
+  it(
+    "SHUNTLY_SINK sets the default sink",
+    withEnv({ SHUNTLY_SINK: `file://${file}` }, async () => {
+      const client = shunt(new Ollama());
+      await client.chat();
+      await client.generate();
+
+      const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).method)).toEqual([
+        "chat",
+        "generate",
+      ]);
+    }),
+  );
+
+  it(
+    "SHUNTLY_DISABLED leaves clients untouched",
+    withEnv({ SHUNTLY_DISABLED: "1" }, async () => {
+      const client = new Ollama();
+      const chat = client.chat;
+      expect(shunt(client)).toBe(client);
+      expect(client.chat).toBe(chat);
+    }),
+  );
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { shunt } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+class Ollama {
+  chat = async (params: { fail?: Error }) => ({
+    async *[Symbol.asyncIterator]() {
+      yield { message: { content: "Hel" }, done: false };
+      if (params.fail) {
+        throw params.fail;
+      }
+      yield { message: { content: "lo" }, done: false };
+      yield { message: { content: "" }, done: true };
+    },
+  });
+
+  generate = async (params: object, options?: { signal?: AbortSignal }) => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    options?.signal?.throwIfAborted();
+    return { response: "Hello", done: true };
+  };
+
+  pull = async () => ({});
+}
+
+describe("record status", () => {
+  it("is ok for completed calls", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink);
+
+    await client.generate({});
+    for await (const _ of await client.chat({})) {
+      // consume
+    }
+
+    expect(sink.records.map((r) => r.status)).toEqual(["ok", "ok"]);
+    const record = sink.records[1].toJSON();
+    expect(record.status).toBe("ok");
+    expect("termination" in record).toBe(false);
+  });
+
+  it("is early_return when the caller stops iterating", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink);
+
+    for await (const _ of await client.chat({})) {
+      break;
+    }
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].status).toBe("early_return");
+    expect(sink.records[0].error).toBeNull();
+    expect(sink.records[0].termination).toEqual({
+      trigger: "return",
+      chunksReceived: 1,
+    });
+  });
+
+  it("is aborted when an AbortSignal cancels the call", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink);
+    const controller = new AbortController();
+
+    const call = client.generate({}, { signal: controller.signal });
+    controller.abort();
+    await expect(call).rejects.toThrow();
+
+    expect(sink.records[0].status).toBe("aborted");
+    expect(sink.records[0].termination).toEqual({
+      trigger: "AbortError",
+      chunksReceived: null,
+    });
+  });
+
+  it("is timeout when a stream times out part way", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink);
+    const timeout = new Error("Request timed out.");
+    timeout.name = "APIConnectionTimeoutError";
+
+    await expect(async () => {
+      for await (const _ of await client.chat({ fail: timeout })) {
+        // consume
+      }
+    }).rejects.toThrow("timed out");
+
+    expect(sink.records[0].status).toBe("timeout");
+    expect(sink.records[0].termination).toEqual({
+      trigger: "APIConnectionTimeoutError",
+      chunksReceived: 1,
+    });
+  });
+
+  it("is error for other failures", async () => {
+    const sink = new TestSink();
+    const client = shunt(new Ollama(), sink);
+
+    await expect(async () => {
+      for await (const _ of await client.chat({ fail: new Error("boom") })) {
+        // consume
+      }
+    }).rejects.toThrow("boom");
+
+    expect(sink.records[0].status).toBe("error");
+    expect(sink.records[0].termination?.trigger).toBe("Error");
+  });
+
+  it("is error for calls rejecting with a falsy reason", async () => {
+    const sink = new TestSink();
+    const complete = shunt(async (model: string, context: object) => {
+      throw undefined;
+    }, sink);
+
+    await expect(complete("model", {})).rejects.toBeUndefined();
+
+    expect(sink.records[0].status).toBe("error");
+    expect(sink.records[0].error).toBe("Error: undefined");
+  });
+});
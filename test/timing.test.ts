@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { shunt, isContentChunk } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("isContentChunk", () => {
+  it("recognizes provider content chunks", () => {
+    expect(
+      isContentChunk({
+        type: "content_block_delta",
+        delta: { type: "text_delta", text: "hi" },
+      }),
+    ).toBe(true);
+    expect(isContentChunk({ type: "message_start", message: {} })).toBe(false);
+    expect(
+      isContentChunk({ choices: [{ delta: { role: "assistant" } }] }),
+    ).toBe(false);
+    expect(isContentChunk({ choices: [{ delta: { content: "hi" } }] })).toBe(
+      true,
+    );
+    expect(
+      isContentChunk({
+        candidates: [{ content: { parts: [{ text: "hi" }] } }],
+      }),
+    ).toBe(true);
+    expect(
+      isContentChunk({ model: "llama3", message: { content: "" }, done: true }),
+    ).toBe(false);
+    expect(isContentChunk({ type: "text_delta", delta: "hi" })).toBe(true);
+  });
+});
+
+describe("stream timing", () => {
+  function stream(model: unknown, context: unknown) {
+    return {
+      async *[Symbol.asyncIterator]() {
+        await sleep(5);
+        yield { type: "start", partial: {} };
+        await sleep(5);
+        yield { type: "text_delta", delta: "Hel", partial: {} };
+        await sleep(5);
+        yield { type: "text_delta", delta: "lo", partial: {} };
+      },
+    };
+  }
+
+  it("records first chunk, first token, and gap statistics", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(stream, sink);
+
+    for await (const _ of wrapped({}, {}) as AsyncIterable<unknown>) {
+      await sleep(5);
+    }
+
+    const timing = sink.records[0].streamTiming!;
+    expect(timing.chunkCount).toBe(3);
+    expect(timing.timeToFirstChunkMs).toBeGreaterThan(0);
+    expect(timing.timeToFirstTokenMs).toBeGreaterThan(
+      timing.timeToFirstChunkMs!,
+    );
+    const gaps = timing.chunkGapMs!;
+    expect(gaps.min).toBeLessThanOrEqual(gaps.p50);
+    expect(gaps.p50).toBeLessThanOrEqual(gaps.p95);
+    expect(gaps.p95).toBeLessThanOrEqual(gaps.max);
+    expect(timing.producerMs).toBeGreaterThan(0);
+    expect(timing.consumerMs).toBeGreaterThan(0);
+    expect(sink.records[0].toJSON().streamTiming).toEqual(timing);
+  });
+
+  it("records timing when the consumer stops early", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(stream, sink);
+
+    for await (const _ of wrapped({}, {}) as AsyncIterable<unknown>) {
+      break;
+    }
+
+    const timing = sink.records[0].streamTiming!;
+    expect(timing.chunkCount).toBe(1);
+    expect(timing.timeToFirstTokenMs).toBeNull();
+    expect(timing.chunkGapMs).toBeNull();
+  });
+
+  it("is absent for non-streaming calls", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(async function complete() {
+      return { text: "ok" };
+    }, sink);
+    await wrapped();
+
+    expect(sink.records[0].streamTiming).toBeUndefined();
+    expect("streamTiming" in sink.records[0].toJSON()).toBe(false);
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect } from "vitest";
+import {
+  shunt,
+  extractToolCalls,
+  extractToolDefinitions,
+} from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+const WEATHER_SCHEMA = {
+  type: "object",
+  properties: { city: { type: "string" } },
+};
+
+describe("extractToolDefinitions", () => {
+  it("normalizes Anthropic and OpenAI tools", () => {
+    const expected = [
+      {
+        name: "get_weather",
+        description: "Weather by city",
+        parameters: WEATHER_SCHEMA,
+      },
+    ];
+    expect(
+      extractToolDefinitions({
+        tools: [
+          {
+            name: "get_weather",
+            description: "Weather by city",
+            input_schema: WEATHER_SCHEMA,
+          },
+        ],
+      }),
+    ).toEqual(expected);
+    expect(
+      extractToolDefinitions({
+        tools: [
+          {
+            type: "function",
+            function: {
+              name: "get_weather",
+              description: "Weather by city",
+              parameters: WEATHER_SCHEMA,
+            },
+          },
+        ],
+      }),
+    ).toEqual(expected);
+  });
+
+  it("normalizes Gemini declarations and built-in tools", () => {
+    expect(
+      extractToolDefinitions({
+        model: "gemini-2.5-flash",
+        config: {
+          tools: [
+            {
+              functionDeclarations: [
+                { name: "get_weather", parametersJsonSchema: WEATHER_SCHEMA },
+              ],
+            },
+          ],
+        },
+      }),
+    ).toEqual([
+      { name: "get_weather", description: null, parameters: WEATHER_SCHEMA },
+    ]);
+    expect(extractToolDefinitions({ tools: [{ type: "web_search" }] })).toEqual(
+      [{ name: "web_search", description: null, parameters: null }],
+    );
+  });
+
+  it("returns an empty list without tools", () => {
+    expect(extractToolDefinitions({ messages: [] })).toEqual([]);
+  });
+});
+
+describe("extractToolCalls", () => {
+  it("normalizes Anthropic tool_use blocks", () => {
+    expect(
+      extractToolCalls({
+        content: [
+          { type: "text", text: "Checking." },
+          {
+            type: "tool_use",
+            id: "toolu_1",
+            name: "get_weather",
+            input: { city: "Paris" },
+          },
+        ],
+      }),
+    ).toEqual([
+      {
+        id: "toolu_1",
+        name: "get_weather",
+        arguments: { city: "Paris" },
+        parseError: null,
+      },
+    ]);
+  });
+
+  it("parses OpenAI arguments and reports parse errors", () => {
+    const calls = extractToolCalls({
+      choices: [
+        {
+          message: {
+            tool_calls: [
+              {
+                id: "call_1",
+                function: {
+                  name: "get_weather",
+                  arguments: '{"city":"Paris"}',
+                },
+              },
+              {
+                id: "call_2",
+                function: { name: "get_weather", arguments: '{"city":' },
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(calls[0].arguments).toEqual({ city: "Paris" });
+    expect(calls[0].parseError).toBeNull();
+    expect(calls[1].arguments).toBe('{"city":');
+    expect(calls[1].parseError).toMatch(/JSON/);
+  });
+
+  it("normalizes Responses, Gemini, Ollama, pi-ai, and AI SDK calls", () => {
+    const paris = { city: "Paris" };
+    const names = (response: unknown) =>
+      extractToolCalls(response).map((c) => [c.id, c.name, c.arguments]);
+
+    expect(
+      names({
+        output: [
+          {
+            type: "function_call",
+            id: "fc_1",
+            call_id: "call_1",
+            name: "get_weather",
+            arguments: '{"city":"Paris"}',
+          },
+        ],
+      }),
+    ).toEqual([["call_1", "get_weather", paris]]);
+    expect(
+      names({
+        candidates: [
+          {
+            content: {
+              parts: [{ functionCall: { name: "get_weather", args: paris } }],
+            },
+          },
+        ],
+      }),
+    ).toEqual([[null, "get_weather", paris]]);
+    expect(
+      names({
+        message: {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ function: { name: "get_weather", arguments: paris } }],
+        },
+      }),
+    ).toEqual([[null, "get_weather", paris]]);
+    expect(
+      names({
+        role: "assistant",
+        content: [
+          { type: "toolCall", id: "t1", name: "get_weather", arguments: paris },
+        ],
+      }),
+    ).toEqual([["t1", "get_weather", paris]]);
+    expect(
+      names({
+        toolCalls: [
+          { toolCallId: "c1", toolName: "get_weather", input: paris },
+        ],
+      }),
+    ).toEqual([["c1", "get_weather", paris]]);
+  });
+});
+
+describe("record tools", () => {
+  it("reassembles tool calls from OpenAI stream fragments", async () => {
+    const sink = new TestSink();
+    const delta = (fn: object, extra: object = {}) => ({
+      object: "chat.completion.chunk",
+      choices: [
+        {
+          index: 0,
+          delta: { tool_calls: [{ index: 0, ...extra, function: fn }] },
+          finish_reason: null,
+        },
+      ],
+    });
+    class Chat {
+      completions = {
+        create: async (params: object) => ({
+          async *[Symbol.asyncIterator]() {
+            yield delta(
+              { name: "get_weather", arguments: "" },
+              { id: "call_1", type: "function" },
+            );
+            yield delta({ arguments: '{"city"' });
+            yield delta({ arguments: ':"Paris"}' });
+          },
+        }),
+      };
+    }
+    class OpenAI {
+      chat = new Chat();
+    }
+    const client = shunt(new OpenAI(), sink);
+
+    const stream = (await client.chat.completions.create({
+      tools: [
+        {
+          type: "function",
+          function: { name: "get_weather", parameters: WEATHER_SCHEMA },
+        },
+      ],
+    })) as AsyncIterable<unknown>;
+    for await (const _ of stream) {
+      // consume
+    }
+
+    const record = sink.records[0].toJSON();
+    expect(record.tools).toEqual([
+      { name: "get_weather", description: null, parameters: WEATHER_SCHEMA },
+    ]);
+    expect(record.toolCalls).toEqual([
+      {
+        id: "call_1",
+        name: "get_weather",
+        arguments: { city: "Paris" },
+        parseError: null,
+      },
+    ]);
+  });
+
+  it("is empty for calls without tools", async () => {
+    const sink = new TestSink();
+    class Messages {
+      create = async (params: object) => ({ content: [] });
+      stream = () => ({});
+    }
+    class Anthropic {
+      messages = new Messages();
+    }
+    const client = shunt(new Anthropic(), sink);
+    await client.messages.create({ messages: [] });
+
+    expect(sink.records[0].tools).toEqual([]);
+    expect(sink.records[0].toolCalls).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  shunt,
+  span,
+  currentSpan,
+  traceparent,
+  parseTraceparent,
+} from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+async function complete(model: unknown, context: unknown) {
+  await new Promise((r) => setTimeout(r, 1));
+  return { text: "ok" };
+}
+
+describe("traceparent", () => {
+  it("round-trips a W3C header", () => {
+    const header = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+    const context = parseTraceparent(header)!;
+    expect(context.traceId).toBe("0af7651916cd43dd8448eb211c80319c");
+    expect(context.spanId).toBe("b7ad6b7169203331");
+    expect(context.sampled).toBe(true);
+    expect(traceparent(context)).toBe(header);
+  });
+
+  it("rejects malformed headers", () => {
+    expect(parseTraceparent("garbage")).toBeNull();
+    expect(
+      parseTraceparent(
+        "00-00000000000000000000000000000000-b7ad6b7169203331-01",
+      ),
+    ).toBeNull();
+  });
+
+  it("is undefined outside a span", () => {
+    expect(currentSpan()).toBeUndefined();
+    expect(traceparent()).toBeUndefined();
+  });
+});
+
+describe("record trace fields", () => {
+  it("gives each top-level call a unique id and trace", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(complete, sink);
+    await wrapped({}, {});
+    await wrapped({}, {});
+
+    const [a, b] = sink.records;
+    expect(a.id).not.toBe(b.id);
+    expect(a.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(a.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(a.traceId).not.toBe(b.traceId);
+    expect(a.parentSpanId).toBeNull();
+    expect(a.parentSpanName).toBeNull();
+  });
+
+  it("links calls made within a span", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(complete, sink);
+
+    const planSpan = await span("plan", async () => {
+      await wrapped({}, {});
+      await wrapped({}, {});
+      return currentSpan()!;
+    });
+
+    const [a, b] = sink.records;
+    expect(a.traceId).toBe(planSpan.traceId);
+    expect(b.traceId).toBe(planSpan.traceId);
+    expect(a.parentSpanId).toBe(planSpan.spanId);
+    expect(a.parentSpanName).toBe("plan");
+    expect(a.spanId).not.toBe(b.spanId);
+  });
+
+  it("links calls made within another shunted call", async () => {
+    const sink = new TestSink();
+    const inner = shunt(complete, sink);
+
+    class Agent {
+      tools = {
+        run: async (params: { task: string }) => {
+          await inner({}, {});
+          await inner({}, {});
+          return "done";
+        },
+      };
+    }
+    const agent = shunt(new Agent(), sink, ["tools.run"]);
+    await agent.tools.run({ task: "plan" });
+
+    // Inner records are written first; the outer record last
+    const outer = sink.records[2];
+    expect(outer.method).toBe("tools.run");
+    for (const record of sink.records.slice(0, 2)) {
+      expect(record.traceId).toBe(outer.traceId);
+      expect(record.parentSpanId).toBe(outer.spanId);
+      expect(record.parentSpanName).toBe("Agent.tools.run");
+    }
+  });
+
+  it("continues an incoming traceparent", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(complete, sink);
+    const header = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+    await span("request", () => wrapped({}, {}), { traceparent: header });
+
+    expect(sink.records[0].traceId).toBe("0af7651916cd43dd8448eb211c80319c");
+    expect(sink.records[0].toJSON().traceId).toBe(
+      "0af7651916cd43dd8448eb211c80319c",
+    );
+  });
+});
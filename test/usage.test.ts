@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import { shunt, extractUsage } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+describe("extractUsage", () => {
+  it("normalizes Anthropic usage including cache", () => {
+    expect(
+      extractUsage({
+        usage: {
+          input_tokens: 10,
+          output_tokens: 20,
+          cache_read_input_tokens: 100,
+          cache_creation_input_tokens: 5,
+        },
+      }),
+    ).toEqual({
+      inputTokens: 115,
+      outputTokens: 20,
+      cacheReadTokens: 100,
+      cacheWriteTokens: 5,
+      reasoningTokens: null,
+      totalTokens: 135,
+    });
+  });
+
+  it("normalizes OpenAI chat usage", () => {
+    expect(
+      extractUsage({
+        usage: {
+          prompt_tokens: 50,
+          completion_tokens: 30,
+          total_tokens: 80,
+          prompt_tokens_details: { cached_tokens: 40 },
+          completion_tokens_details: { reasoning_tokens: 12 },
+        },
+      }),
+    ).toEqual({
+      inputTokens: 50,
+      outputTokens: 30,
+      cacheReadTokens: 40,
+      cacheWriteTokens: null,
+      reasoningTokens: 12,
+      totalTokens: 80,
+    });
+  });
+
+  it("normalizes Gemini usageMetadata", () => {
+    expect(
+      extractUsage({
+        usageMetadata: {
+          promptTokenCount: 8,
+          candidatesTokenCount: 4,
+          thoughtsTokenCount: 6,
+          cachedContentTokenCount: 2,
+          totalTokenCount: 18,
+        },
+      }),
+    ).toEqual({
+      inputTokens: 8,
+      outputTokens: 10,
+      cacheReadTokens: 2,
+      cacheWriteTokens: null,
+      reasoningTokens: 6,
+      totalTokens: 18,
+    });
+  });
+
+  it("normalizes Ollama counts", () => {
+    expect(
+      extractUsage({ model: "llama3", prompt_eval_count: 7, eval_count: 3 }),
+    ).toEqual({
+      inputTokens: 7,
+      outputTokens: 3,
+      cacheReadTokens: null,
+      cacheWriteTokens: null,
+      reasoningTokens: null,
+      totalTokens: 10,
+    });
+  });
+
+  it("normalizes pi-ai usage", () => {
+    expect(
+      extractUsage({
+        role: "assistant",
+        usage: {
+          input: 10,
+          output: 5,
+          cacheRead: 3,
+          cacheWrite: 0,
+          totalTokens: 18,
+        },
+      }),
+    ).toEqual({
+      inputTokens: 13,
+      outputTokens: 5,
+      cacheReadTokens: 3,
+      cacheWriteTokens: 0,
+      reasoningTokens: null,
+      totalTokens: 18,
+    });
+  });
+
+  it("normalizes AI SDK usage", () => {
+    expect(
+      extractUsage({
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      }),
+    ).toMatchObject({ inputTokens: 10, outputTokens: 5, totalTokens: 15 });
+    expect(
+      extractUsage({
+        usage: {
+          inputTokens: 10,
+          outputTokens: 5,
+          totalTokens: 15,
+          reasoningTokens: 2,
+          cachedInputTokens: 4,
+        },
+      }),
+    ).toEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+      cacheReadTokens: 4,
+      cacheWriteTokens: null,
+      reasoningTokens: 2,
+      totalTokens: 15,
+    });
+  });
+
+  it("returns null without usage", () => {
+    expect(extractUsage({ text: "hi" })).toBeNull();
+    expect(extractUsage(null)).toBeNull();
+  });
+});
+
+describe("record usage", () => {
+  it("is extracted from non-streaming responses", async () => {
+    const sink = new TestSink();
+    class Chat {
+      completions = {
+        create: async () => ({
+          choices: [],
+          usage: { prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 },
+        }),
+      };
+    }
+    class OpenAI {
+      chat = new Chat();
+    }
+    const client = shunt(new OpenAI(), sink);
+    await client.chat.completions.create();
+
+    expect(sink.records[0].usage).toMatchObject({
+      inputTokens: 2,
+      outputTokens: 3,
+      totalTokens: 5,
+    });
+    expect(sink.records[0].toJSON().usage).toEqual(sink.records[0].usage);
+  });
+
+  it("is extracted from stream chunks", async () => {
+    const sink = new TestSink();
+    class Ollama {
+      chat = async () => ({
+        async *[Symbol.asyncIterator]() {
+          yield { model: "llama3", message: { content: "hi" }, done: false };
+          yield {
+            model: "llama3",
+            message: { content: "" },
+            done: true,
+            prompt_eval_count: 4,
+            eval_count: 1,
+          };
+        },
+      });
+      generate = this.chat;
+    }
+    const client = shunt(new Ollama(), sink);
+    for await (const _ of (await client.chat()) as AsyncIterable<unknown>) {
+      // consume
+    }
+
+    expect(sink.records[0].usage).toMatchObject({
+      inputTokens: 4,
+      outputTokens: 1,
+      totalTokens: 5,
+    });
+  });
+
+  it("is extracted even when reassembly is disabled", async () => {
+    const sink = new TestSink();
+    function stream(model: unknown, context: unknown) {
+      return {
+        async *[Symbol.asyncIterator]() {
+          yield { type: "start", partial: {} };
+          yield {
+            type: "done",
+            reason: "stop",
+            message: { usage: { input: 1, output: 2, totalTokens: 3 } },
+          };
+        },
+      };
+    }
+    const wrapped = shunt(stream, sink, { reassemble: false });
+    for await (const _ of wrapped({}, {}) as AsyncIterable<unknown>) {
+      // consume
+    }
+
+    expect(sink.records[0].usage?.totalTokens).toBe(3);
+  });
+
+  it("is null for errors", async () => {
+    const sink = new TestSink();
+    const wrapped = shunt(async function complete() {
+      throw new Error("down");
+    }, sink);
+    await expect(wrapped()).rejects.toThrow("down");
+
+    expect(sink.records[0].usage).toBeNull();
+  });
+});
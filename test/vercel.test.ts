@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from "vitest";
+import { shunt } from "../src/index.js";
+import { TestSink } from "./helpers.js";
+
+// Stand-ins for the `ai` package, following its call and result shapes
+
+type Options = {
+  model: unknown;
+  prompt?: string;
+  onChunk?: (event: { chunk: unknown }) => void;
+  onFinish?: (event: object) => void;
+  onError?: (event: { error: unknown }) => void;
+  [key: string]: unknown;
+};
+
+const model = {
+  specificationVersion: "v2",
+  provider: "openai.chat",
+  modelId: "gpt-4o",
+  config: { headers: () => ({ Authorization: "Bearer sk-secret" }) },
+};
+
+const USAGE = { inputTokens: 4, outputTokens: 2, totalTokens: 6 };
+
+class GenerateTextResult {
+  readonly steps = [{ content: [{ type: "text", text: "Hello" }] }];
+  readonly usage = USAGE;
+  readonly finishReason = "stop";
+
+  get text(): string {
+    return this.steps[0].content[0].text;
+  }
+}
+
+async function generateText(options: Options): Promise<GenerateTextResult> {
+  return new GenerateTextResult();
+}
+
+function streamText(options: Options, fail = false) {
+  const parts = ["Hel", "lo"];
+  let processed: Promise<string> | null = null;
+  // The SDK processes the stream once, whichever way it is consumed
+  const process = () =>
+    (processed ??= (async () => {
+      for (const part of parts) {
+        options.onChunk?.({ chunk: { type: "text-delta", text: part } });
+      }
+      if (fail) {
+        options.onError?.({ error: new Error("stream broke") });
+        return "";
+      }
+      options.onFinish?.({ text: "Hello", finishReason: "stop", usage: USAGE });
+      return "Hello";
+    })());
+  return {
+    get textStream(): AsyncIterable<string> {
+      return (async function* () {
+        await process();
+        yield* parts;
+      })();
+    },
+    get text(): Promise<string> {
+      return process();
+    },
+  };
+}
+
+function streamObject(options: Options) {
+  const object = (async () => {
+    await new Promise((resolve) => setTimeout(resolve));
+    options.onFinish?.({ object: { answer: 42 }, usage: USAGE });
+    return { answer: 42 };
+  })();
+  return { object };
+}
+
+describe("AI SDK", () => {
+  it("leaves other functions taking a model name alone", async () => {
+    const sink = new TestSink();
+    const received: object[] = [];
+    const complete = shunt((options: Options) => {
+      received.push(options);
+      return { choices: [{ message: { content: "Hi" } }] };
+    }, sink);
+
+    const options = { model: "gpt-4o", messages: [] };
+    expect(complete(options).choices).toHaveLength(1);
+
+    expect(received).toEqual([options]);
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].response).toEqual({
+      choices: [{ message: { content: "Hi" } }],
+    });
+  });
+
+  it("records generateText", async () => {
+    const sink = new TestSink();
+    const generate = shunt(generateText, sink);
+
+    const result = await generate({ model, prompt: "Say hello" });
+
+    expect(result.text).toBe("Hello");
+    expect(sink.records).toHaveLength(1);
+    const record = sink.records[0].toJSON();
+    expect(record.client).toBe("openai.chat/gpt-4o");
+    expect(record.method).toBe("generateText");
+    expect(record.request).toEqual({
+      model: "openai.chat/gpt-4o",
+      prompt: "Say hello",
+    });
+    expect(record.response).toEqual({
+      text: "Hello",
+      finishReason: "stop",
+      usage: USAGE,
+    });
+    expect(record.usage).toMatchObject({ inputTokens: 4, totalTokens: 6 });
+  });
+
+  it("records streamText consumed through a stream", async () => {
+    const sink = new TestSink();
+    const finished: object[] = [];
+    const stream = shunt(streamText, sink);
+
+    const result = stream({
+      model,
+      prompt: "Say hello",
+      onFinish: (event) => finished.push(event),
+    });
+    expect(sink.records).toHaveLength(0);
+    let text = "";
+    for await (const part of result.textStream) {
+      text += part;
+    }
+
+    expect(text).toBe("Hello");
+    expect(finished).toHaveLength(1);
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].method).toBe("streamText");
+    expect(sink.records[0].response).toEqual([
+      { type: "text-delta", text: "Hel" },
+      { type: "text-delta", text: "lo" },
+    ]);
+    expect(sink.records[0].reassembled).toEqual({
+      text: "Hello",
+      finishReason: "stop",
+      usage: USAGE,
+    });
+    expect(sink.records[0].streamTiming?.chunkCount).toBe(2);
+    expect(sink.records[0].usage?.outputTokens).toBe(2);
+  });
+
+  it("records streamText consumed through a promise", async () => {
+    const sink = new TestSink();
+    const stream = shunt(streamText, sink);
+
+    expect(await stream({ model, prompt: "Say hello" }).text).toBe("Hello");
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].reassembled).toMatchObject({ text: "Hello" });
+  });
+
+  it("records stream errors", async () => {
+    const sink = new TestSink();
+    const errors: unknown[] = [];
+    const stream = shunt((options: Options) => streamText(options, true), sink);
+
+    await stream({
+      model,
+      prompt: "Say hello",
+      onError: ({ error }) => errors.push(error),
+    }).text;
+
+    expect(errors).toHaveLength(1);
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].error).toBe("Error: stream broke");
+    expect(sink.records[0].streamTiming?.chunkCount).toBe(2);
+  });
+
+  it("still logs stream errors without the caller's onError", async () => {
+    const sink = new TestSink();
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const stream = shunt((options: Options) => streamText(options, true), sink);
+
+    try {
+      await stream({ model, prompt: "Say hello" }).text;
+
+      expect(log).toHaveBeenCalledWith(new Error("stream broke"));
+      expect(sink.records[0].error).toBe("Error: stream broke");
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it("records streamObject with its JSON schema", async () => {
+    const sink = new TestSink();
+    const stream = shunt(streamObject, sink, { vercel: true });
+    const schema = {
+      jsonSchema: { type: "object", properties: { answer: {} } },
+      validate: (value: unknown) => ({ success: true, value }),
+    };
+
+    const { object } = stream({ model: "openai/gpt-4o", schema, prompt: "?" });
+    expect(await object).toEqual({ answer: 42 });
+
+    expect(sink.records).toHaveLength(1);
+    expect(sink.records[0].client).toBe("openai/gpt-4o");
+    expect(sink.records[0].request.schema).toEqual(schema.jsonSchema);
+    expect(sink.records[0].reassembled).toEqual({
+      object: { answer: 42 },
+      usage: USAGE,
+    });
+  });
+});